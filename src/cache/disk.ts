@@ -0,0 +1,104 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { CacheEntry, CachedResponse, ResponseCache, ResponseCacheOptions } from './types.js';
+import { DEFAULT_CACHE_MAX_BYTES, DEFAULT_CACHE_TTL_MS } from './memory.js';
+
+/**
+ * Stores each response as `<dir>/<key>.json`, so the cache survives
+ * restarts. A file's modification time records when it was last read,
+ * which decides what goes first once the directory outgrows its size cap.
+ */
+export class DiskResponseCache implements ResponseCache {
+  private ready?: Promise<void>;
+  private ttlMs: number;
+  private maxBytes: number;
+
+  constructor(private dir: string, options: ResponseCacheOptions = {}, private now: () => number = Date.now) {
+    this.ttlMs = options.ttlMs ?? DEFAULT_CACHE_TTL_MS;
+    this.maxBytes = options.maxBytes ?? DEFAULT_CACHE_MAX_BYTES;
+  }
+
+  private fileFor(key: string): string {
+    return path.join(this.dir, `${key}.json`);
+  }
+
+  private ensureDir(): Promise<void> {
+    if (!this.ready) {
+      this.ready = fs.mkdir(this.dir, { recursive: true }).then(() => undefined);
+    }
+    return this.ready;
+  }
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    const file = this.fileFor(key);
+    let entry: CacheEntry;
+    try {
+      entry = JSON.parse(await fs.readFile(file, 'utf-8')) as CacheEntry;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Ignoring unreadable cache file ${file}: ${(error as Error).message}`);
+      }
+      return undefined;
+    }
+
+    if (entry.expiresAt <= this.now()) {
+      await fs.rm(file, { force: true });
+      return undefined;
+    }
+    const touchedAt = new Date(this.now());
+    await fs.utimes(file, touchedAt, touchedAt).catch(() => undefined);
+    return entry.value;
+  }
+
+  async set(key: string, value: CachedResponse): Promise<void> {
+    await this.ensureDir();
+    const createdAt = this.now();
+    const entry: CacheEntry = { value, createdAt, expiresAt: createdAt + this.ttlMs };
+    const file = this.fileFor(key);
+    const tmpFile = `${file}.${randomUUID()}.tmp`;
+
+    await fs.writeFile(tmpFile, JSON.stringify(entry));
+    try {
+      await fs.rename(tmpFile, file);
+    } catch (error) {
+      await fs.rm(tmpFile, { force: true });
+      throw error;
+    }
+    await this.enforceSizeCap();
+  }
+
+  async clear(): Promise<number> {
+    const files = await this.cacheFiles();
+    await Promise.all(files.map(file => fs.rm(path.join(this.dir, file), { force: true })));
+    return files.length;
+  }
+
+  // Removes least recently read entries until the directory fits under maxBytes
+  private async enforceSizeCap(): Promise<void> {
+    const files = await Promise.all((await this.cacheFiles()).map(async file => {
+      const stats = await fs.stat(path.join(this.dir, file)).catch(() => undefined);
+      return { file, size: stats?.size ?? 0, usedAt: stats?.mtimeMs ?? 0 };
+    }));
+    let bytes = files.reduce((total, file) => total + file.size, 0);
+
+    for (const file of files.sort((a, b) => a.usedAt - b.usedAt)) {
+      if (bytes <= this.maxBytes) {
+        break;
+      }
+      await fs.rm(path.join(this.dir, file.file), { force: true });
+      bytes -= file.size;
+    }
+  }
+
+  private async cacheFiles(): Promise<string[]> {
+    try {
+      return (await fs.readdir(this.dir)).filter(file => file.endsWith('.json'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,5 @@
+export * from './types.js';
+export * from './key.js';
+export * from './memory.js';
+export * from './disk.js';
+export * from './response.js';
@@ -0,0 +1,33 @@
+import { createHash } from 'crypto';
+import { Content, GenerateContentRequest, GenerativeModel } from '@google/generative-ai';
+
+function sha256(data: string): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+// Images are keyed by a hash of their data rather than the base64 itself
+function hashInlineData(contents: Content[]): unknown[] {
+  return contents.map(content => ({
+    ...content,
+    parts: content.parts.map(part => part.inlineData
+      ? { inlineData: { mimeType: part.inlineData.mimeType, sha256: sha256(part.inlineData.data) } }
+      : part)
+  }));
+}
+
+/**
+ * Identifies a Gemini call by everything that affects its output: the
+ * model and its settings, the full prompt contents and the generation config.
+ */
+export function cacheKey(model: GenerativeModel, request: GenerateContentRequest): string {
+  return sha256(JSON.stringify({
+    model: model.model,
+    modelSystemInstruction: model.systemInstruction,
+    modelGenerationConfig: model.generationConfig,
+    modelSafetySettings: model.safetySettings,
+    contents: hashInlineData(request.contents),
+    systemInstruction: request.systemInstruction,
+    generationConfig: request.generationConfig,
+    safetySettings: request.safetySettings
+  }));
+}
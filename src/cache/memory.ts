@@ -0,0 +1,73 @@
+import { CacheEntry, CachedResponse, ResponseCache, ResponseCacheOptions } from './types.js';
+
+export const DEFAULT_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+export const DEFAULT_CACHE_MAX_BYTES = 64 * 1024 * 1024;
+
+interface SizedEntry extends CacheEntry {
+  size: number;
+}
+
+/**
+ * Keeps responses for the lifetime of the process. The map's insertion
+ * order doubles as the LRU order: reads move an entry to the end.
+ */
+export class MemoryResponseCache implements ResponseCache {
+  private entries: Map<string, SizedEntry> = new Map();
+  private bytes = 0;
+  private ttlMs: number;
+  private maxBytes: number;
+
+  constructor(options: ResponseCacheOptions = {}, private now: () => number = Date.now) {
+    this.ttlMs = options.ttlMs ?? DEFAULT_CACHE_TTL_MS;
+    this.maxBytes = options.maxBytes ?? DEFAULT_CACHE_MAX_BYTES;
+  }
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    this.remove(key, entry);
+    if (entry.expiresAt <= this.now()) {
+      return undefined;
+    }
+    this.entries.set(key, entry);
+    this.bytes += entry.size;
+    return structuredClone(entry.value);
+  }
+
+  async set(key: string, value: CachedResponse): Promise<void> {
+    const size = Buffer.byteLength(JSON.stringify(value));
+    // An entry this large would push everything else out
+    if (size > this.maxBytes) {
+      return;
+    }
+    const existing = this.entries.get(key);
+    if (existing) {
+      this.remove(key, existing);
+    }
+
+    const createdAt = this.now();
+    this.entries.set(key, { value: structuredClone(value), createdAt, expiresAt: createdAt + this.ttlMs, size });
+    this.bytes += size;
+
+    for (const [oldestKey, oldest] of this.entries) {
+      if (this.bytes <= this.maxBytes) {
+        break;
+      }
+      this.remove(oldestKey, oldest);
+    }
+  }
+
+  async clear(): Promise<number> {
+    const count = this.entries.size;
+    this.entries.clear();
+    this.bytes = 0;
+    return count;
+  }
+
+  private remove(key: string, entry: SizedEntry): void {
+    this.entries.delete(key);
+    this.bytes -= entry.size;
+  }
+}
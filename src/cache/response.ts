@@ -0,0 +1,22 @@
+import { EnhancedGenerateContentResponse, GenerateContentResponse } from '@google/generative-ai';
+import { CachedResponse } from './types.js';
+
+// Only complete answers are worth repeating; blocked and truncated ones are not cached
+export function isCacheable(response: GenerateContentResponse): boolean {
+  const finishReason = response.candidates?.[0]?.finishReason;
+  return !response.promptFeedback?.blockReason && (finishReason === undefined || finishReason === 'STOP');
+}
+
+export function toCachedResponse(response: GenerateContentResponse): CachedResponse {
+  return {
+    candidates: response.candidates,
+    promptFeedback: response.promptFeedback,
+    usageMetadata: response.usageMetadata
+  };
+}
+
+// Restores the text() accessor the rest of the server reads responses through
+export function fromCachedResponse(cached: CachedResponse): EnhancedGenerateContentResponse {
+  const text = cached.candidates?.[0]?.content?.parts?.map(part => part.text || '').join('') ?? '';
+  return { ...cached, text: () => text } as EnhancedGenerateContentResponse;
+}
@@ -0,0 +1,38 @@
+import { GenerateContentResponse } from '@google/generative-ai';
+
+// The serializable part of a Gemini response; the SDK's helper methods are rebuilt on the way out
+export type CachedResponse = Pick<GenerateContentResponse, 'candidates' | 'promptFeedback' | 'usageMetadata'>;
+
+export interface CacheEntry {
+  value: CachedResponse;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface ResponseCacheOptions {
+  // How long a response stays valid; defaults to a day
+  ttlMs?: number;
+  // Upper bound on the serialized size of all entries; least recently used entries go first
+  maxBytes?: number;
+}
+
+/**
+ * Backend for cached Gemini responses, keyed by cacheKey().
+ */
+export interface ResponseCache {
+  get(key: string): Promise<CachedResponse | undefined>;
+  set(key: string, value: CachedResponse): Promise<void>;
+  // Removes every entry and returns how many there were
+  clear(): Promise<number>;
+}
+
+export type CacheStatus = 'hit' | 'miss' | 'bypass';
+
+/**
+ * Response caching for the Gemini tools.
+ */
+export interface ResponseCacheConfig {
+  store: ResponseCache;
+  // Also cache calls with a temperature above 0, whose output would otherwise vary
+  force?: boolean;
+}
@@ -0,0 +1,89 @@
+import { MCPResponse } from '../types.js';
+import { ERROR_CODES } from '../protocol.js';
+import { Completion, CompletionArgument, PromptReference, ResourceReference } from '../interfaces/completion.js';
+
+// The MCP spec caps completion results at 100 values
+export const MAX_COMPLETION_VALUES = 100;
+
+export type CompletionValues = string[] | (() => string[] | Promise<string[]>);
+
+/**
+ * Ranks `values` against what the user has typed so far: exact matches first,
+ * then prefix matches, then word-prefix matches, then substring matches.
+ * Values keep their original order within each rank.
+ */
+export function rankCompletions(values: string[], query: string, limit: number = MAX_COMPLETION_VALUES): Completion {
+  const needle = query.trim().toLowerCase();
+
+  const rank = (value: string): number => {
+    const candidate = value.toLowerCase();
+    if (!needle) return 3;
+    if (candidate === needle) return 0;
+    if (candidate.startsWith(needle)) return 1;
+    if (candidate.split(/[\s\-_()/.]+/).some(word => word.startsWith(needle))) return 2;
+    if (candidate.includes(needle)) return 3;
+    return -1;
+  };
+
+  const matches = Array.from(new Set(values))
+    .map((value, index) => ({ value, index, rank: rank(value) }))
+    .filter(match => match.rank >= 0)
+    .sort((a, b) => a.rank - b.rank || a.index - b.index)
+    .map(match => match.value);
+
+  return {
+    values: matches.slice(0, limit),
+    total: matches.length,
+    hasMore: matches.length > limit
+  };
+}
+
+/**
+ * Suggestion sources for completion/complete, keyed by the prompt name
+ * (or resource URI template) and the argument being completed.
+ */
+export class CompletionRegistry {
+  private sources: Map<string, CompletionValues> = new Map();
+
+  private key(ref: PromptReference | ResourceReference, argument: string): string {
+    return ref.type === 'ref/prompt'
+      ? `prompt:${ref.name}:${argument}`
+      : `resource:${ref.uri}:${argument}`;
+  }
+
+  registerPromptArgument(name: string, argument: string, values: CompletionValues): void {
+    this.sources.set(this.key({ type: 'ref/prompt', name }, argument), values);
+  }
+
+  registerResourceVariable(uriTemplate: string, variable: string, values: CompletionValues): void {
+    this.sources.set(this.key({ type: 'ref/resource', uri: uriTemplate }, variable), values);
+  }
+
+  async complete(
+    id: string | number,
+    ref: PromptReference | ResourceReference,
+    argument: CompletionArgument
+  ): Promise<MCPResponse> {
+    if (!ref || (ref.type !== 'ref/prompt' && ref.type !== 'ref/resource') || typeof argument?.name !== 'string') {
+      return {
+        jsonrpc: '2.0',
+        id,
+        error: {
+          code: ERROR_CODES.INVALID_PARAMS,
+          message: 'Invalid completion request: expected ref and argument.name'
+        }
+      };
+    }
+
+    const source = this.sources.get(this.key(ref, argument.name));
+    const values = typeof source === 'function' ? await source() : source || [];
+
+    return {
+      jsonrpc: '2.0',
+      id,
+      result: {
+        completion: rankCompletions(values, argument.value || '')
+      }
+    };
+  }
+}
@@ -0,0 +1,62 @@
+// Suggestion lists, ordered by how commonly they are used
+
+export const PROGRAMMING_LANGUAGES = [
+  'python',
+  'javascript',
+  'typescript',
+  'java',
+  'go',
+  'rust',
+  'csharp',
+  'cpp',
+  'c',
+  'php',
+  'ruby',
+  'kotlin',
+  'swift',
+  'scala',
+  'dart',
+  'sql',
+  'bash',
+  'r',
+  'lua',
+  'perl',
+  'haskell',
+  'elixir',
+  'clojure',
+  'objective-c'
+];
+
+export const NATURAL_LANGUAGES = [
+  'English',
+  'Spanish',
+  'French',
+  'German',
+  'Chinese (Simplified)',
+  'Chinese (Traditional)',
+  'Japanese',
+  'Korean',
+  'Portuguese',
+  'Italian',
+  'Russian',
+  'Arabic',
+  'Hindi',
+  'Dutch',
+  'Turkish',
+  'Polish',
+  'Ukrainian',
+  'Swedish',
+  'Vietnamese',
+  'Indonesian',
+  'Thai',
+  'Hebrew',
+  'Greek',
+  'Czech',
+  'Danish',
+  'Finnish',
+  'Norwegian',
+  'Romanian',
+  'Hungarian'
+];
+
+export const WRITING_STYLES = ['formal', 'casual', 'technical', 'simple', 'creative'];
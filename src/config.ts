@@ -0,0 +1,147 @@
+import * as os from 'os';
+import * as path from 'path';
+import { GeminiServerOptions } from './core.js';
+import { SchedulerOptions } from './scheduler.js';
+import { RateLimit, RateLimitOptions } from './rateLimit.js';
+import type { ListenOptions } from './server.js';
+import { DiskResponseCache, MemoryResponseCache, ResponseCacheConfig, ResponseCacheOptions } from './cache/index.js';
+import { DEFAULT_KEEP_TURNS } from './sessions/index.js';
+import { ContextGuardMode } from './gemini/index.js';
+import { JsonFileUsageStore, PriceTable } from './usage/index.js';
+
+const CONTEXT_GUARD_MODES: ContextGuardMode[] = ['reject', 'warn', 'off'];
+
+function positiveInt(value: string | undefined): number | undefined {
+  const parsed = parseInt(value || '', 10);
+  return parsed > 0 ? parsed : undefined;
+}
+
+function nonNegativeInt(value: string | undefined): number | undefined {
+  const parsed = parseInt(value || '', 10);
+  return parsed >= 0 ? parsed : undefined;
+}
+
+/**
+ * Reads the server options shared by every transport from environment variables.
+ */
+export function loadOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): GeminiServerOptions {
+  const persistSessions = env.GEMINI_SESSIONS_PERSIST !== 'false';
+  const compactionThreshold = positiveInt(env.GEMINI_COMPACTION_THRESHOLD);
+  const sessionIdleTtl = positiveInt(env.GEMINI_SESSION_IDLE_TTL);
+
+  return {
+    promptsDir: env.GEMINI_PROMPTS_DIR,
+    sessionsDir: persistSessions
+      ? env.GEMINI_SESSIONS_DIR || path.join(os.homedir(), '.mcp-server-gemini', 'sessions')
+      : undefined,
+    compaction: compactionThreshold ? {
+      thresholdTokens: compactionThreshold,
+      keepTurns: positiveInt(env.GEMINI_COMPACTION_KEEP_TURNS) ?? DEFAULT_KEEP_TURNS
+    } : undefined,
+    sessionLimits: {
+      maxSessions: positiveInt(env.GEMINI_MAX_SESSIONS) ?? 100,
+      idleTtlMs: sessionIdleTtl ? sessionIdleTtl * 1000 : undefined,
+      maxTurns: positiveInt(env.GEMINI_MAX_TURNS)
+    },
+    retry: {
+      maxRetries: nonNegativeInt(env.GEMINI_MAX_RETRIES),
+      maxDelayMs: positiveInt(env.GEMINI_RETRY_MAX_DELAY_MS)
+    },
+    cache: loadCacheConfig(env),
+    contextGuard: {
+      mode: CONTEXT_GUARD_MODES.find(mode => mode === env.GEMINI_CONTEXT_GUARD),
+      contextWindow: positiveInt(env.GEMINI_CONTEXT_WINDOW)
+    },
+    usage: {
+      store: env.GEMINI_USAGE_PERSIST === 'true'
+        ? new JsonFileUsageStore(env.GEMINI_USAGE_DIR || path.join(os.homedir(), '.mcp-server-gemini', 'usage'))
+        : undefined,
+      prices: loadPriceTable(env.GEMINI_PRICES)
+    },
+    filesDir: env.GEMINI_FILES_DIR
+  };
+}
+
+// Comma-separated `model=input/output` pairs in US dollars per million tokens, e.g. `gemini-2.5-pro=1.25/10`
+function loadPriceTable(value: string | undefined): PriceTable {
+  const prices: PriceTable = {};
+  for (const entry of (value || '').split(',')) {
+    const [model, price] = entry.split('=').map(part => part.trim());
+    const [input, output] = (price || '').split('/').map(part => parseFloat(part));
+    if (model && input >= 0 && output >= 0) {
+      prices[model] = { input, output };
+    }
+  }
+  return prices;
+}
+
+// GEMINI_CACHE selects the backend, `memory` or `disk`; anything else leaves caching off
+function loadCacheConfig(env: NodeJS.ProcessEnv): ResponseCacheConfig | undefined {
+  const ttl = positiveInt(env.GEMINI_CACHE_TTL);
+  const maxMb = positiveInt(env.GEMINI_CACHE_MAX_MB);
+  const options: ResponseCacheOptions = {
+    ttlMs: ttl ? ttl * 1000 : undefined,
+    maxBytes: maxMb ? maxMb * 1024 * 1024 : undefined
+  };
+
+  switch (env.GEMINI_CACHE) {
+    case 'memory':
+      return { store: new MemoryResponseCache(options), force: env.GEMINI_CACHE_FORCE === 'true' };
+    case 'disk': {
+      const dir = env.GEMINI_CACHE_DIR || path.join(os.homedir(), '.mcp-server-gemini', 'cache');
+      return { store: new DiskResponseCache(dir, options), force: env.GEMINI_CACHE_FORCE === 'true' };
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Reads the stdio request scheduler limits. GEMINI_TOOL_CONCURRENCY takes
+ * comma-separated `tool=limit` pairs, e.g. `analyze_image=2,compare_images=1`.
+ */
+export function loadSchedulerOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): SchedulerOptions {
+  const toolConcurrency: Record<string, number> = {};
+  for (const entry of (env.GEMINI_TOOL_CONCURRENCY || '').split(',')) {
+    const [tool, limit] = entry.split('=').map(part => part.trim());
+    const parsed = positiveInt(limit);
+    if (tool && parsed) {
+      toolConcurrency[tool] = parsed;
+    }
+  }
+
+  return {
+    concurrency: positiveInt(env.GEMINI_MAX_CONCURRENT_REQUESTS),
+    maxQueue: positiveInt(env.GEMINI_MAX_QUEUED_REQUESTS),
+    toolConcurrency
+  };
+}
+
+function rateLimit(requestsPerMinute: string | undefined, tokensPerDay: string | undefined): RateLimit {
+  return { requestsPerMinute: positiveInt(requestsPerMinute), tokensPerDay: positiveInt(tokensPerDay) };
+}
+
+/**
+ * Reads the WebSocket and Streamable HTTP server's request and token
+ * budgets. Connections and HTTP sessions get 60 requests per minute unless
+ * configured otherwise; every other limit is off by default.
+ */
+export function loadRateLimitOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): RateLimitOptions {
+  const perConnection = rateLimit(env.GEMINI_CONNECTION_RPM, env.GEMINI_CONNECTION_TOKENS_PER_DAY);
+  return {
+    perConnection: { ...perConnection, requestsPerMinute: perConnection.requestsPerMinute ?? 60 },
+    perClient: rateLimit(env.GEMINI_CLIENT_RPM, env.GEMINI_CLIENT_TOKENS_PER_DAY),
+    global: rateLimit(env.GEMINI_GLOBAL_RPM, env.GEMINI_GLOBAL_TOKENS_PER_DAY)
+  };
+}
+
+/**
+ * Reads where the network server listens and which web origins may use it.
+ * GEMINI_ALLOWED_ORIGINS takes a comma-separated list of origins.
+ */
+export function loadListenOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): ListenOptions {
+  return {
+    host: env.HOST || 'localhost',
+    allowedOrigins: (env.GEMINI_ALLOWED_ORIGINS || '').split(',').map(origin => origin.trim()).filter(Boolean)
+  };
+}
@@ -0,0 +1,2298 @@
+import {
+  Content,
+  GenerateContentRequest,
+  GenerateContentResult,
+  GenerateContentStreamResult,
+  GenerativeModel,
+  GoogleGenerativeAI,
+  Part
+} from '@google/generative-ai';
+import EventEmitter from 'events';
+import * as fs from 'fs/promises';
+import { MCPRequest, MCPResponse, NotificationMessage } from './types.js';
+import { DEFAULT_MODEL, ERROR_CODES, ProtocolManager, SERVER_INFO } from './protocol.js';
+import { MCPHandlers } from './handlers.js';
+import {
+  ContextGuardOptions,
+  RetryOptions,
+  TRUNCATION_NOTICE,
+  TokenUsage,
+  contextLimitError,
+  contextWindowFor,
+  readResponseText,
+  toGeminiError,
+  toTokenUsage,
+  withRetry
+} from './gemini/index.js';
+import {
+  ToolRegistry,
+  ToolDefinition,
+  ToolAnnotations,
+  ToolContext,
+  JSONSchema,
+  ProgressReporter,
+  FileAccessError,
+  resolveReadPath,
+  resolveWritePath,
+  splitIntoChunks
+} from './tools/index.js';
+import { PromptRegistry } from './prompts/index.js';
+import {
+  CacheStatus,
+  ResponseCacheConfig,
+  cacheKey,
+  fromCachedResponse,
+  isCacheable,
+  toCachedResponse
+} from './cache/index.js';
+import { ResourceRegistry } from './resources/index.js';
+import { UsageLedger, UsageOptions, UsageSource, addUsage, emptyTotals } from './usage/index.js';
+import {
+  ChatMessage,
+  ChatSessionManager,
+  ChatSessionRecord,
+  CompactionOptions,
+  JsonFileSessionStore,
+  SessionEviction,
+  SessionGenerationConfig,
+  SessionLimits,
+  SessionStore,
+  formatTranscript,
+  TranscriptFormat,
+  countTurns,
+  estimateTokens,
+  rewindHistory,
+  buildSystemInstruction,
+  estimateSessionTokens,
+  splitForCompaction,
+  COMPACTION_REQUEST,
+  DEFAULT_KEEP_TURNS,
+  SUMMARY_REQUEST
+} from './sessions/index.js';
+import { CompletionRegistry, PROGRAMMING_LANGUAGES, NATURAL_LANGUAGES, WRITING_STYLES } from './completion/index.js';
+
+// Per-session settings accepted by chat (on creation) and update_chat_session
+const SESSION_CONFIG_PROPERTIES: Record<string, JSONSchema> = {
+  systemPrompt: {
+    type: 'string',
+    description: 'System instruction for the session'
+  },
+  model: {
+    type: 'string',
+    description: `Gemini model to use (defaults to ${DEFAULT_MODEL})`
+  },
+  temperature: {
+    type: 'number',
+    description: 'Temperature for generation (0.0 to 2.0)',
+    minimum: 0,
+    maximum: 2
+  },
+  maxTokens: {
+    type: 'integer',
+    description: 'Maximum number of tokens per reply',
+    minimum: 1
+  },
+  topP: {
+    type: 'number',
+    description: 'Nucleus sampling probability mass (0.0 to 1.0)',
+    minimum: 0,
+    maximum: 1
+  },
+  topK: {
+    type: 'integer',
+    description: 'Number of highest-probability tokens to sample from',
+    minimum: 1
+  },
+  stopSequences: {
+    type: 'array',
+    description: 'Sequences that stop generation',
+    items: { type: 'string' },
+    maxItems: 5
+  }
+};
+
+// Hints for tools that only send content to Gemini and return its answer
+const GEMINI_QUERY: ToolAnnotations = { readOnlyHint: true, openWorldHint: true };
+
+// Severity levels for notifications/message, lowest first
+const LOG_LEVELS = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+// Opt-in streaming of partial output for the generation, chat and code tools
+const STREAM_PROPERTY: JSONSchema = {
+  type: 'boolean',
+  description: 'Send partial text as notifications/message log messages (logger "gemini-stream") while generating',
+  default: false
+};
+
+// Texts longer than this are summarized chunk by chunk, then combined
+const SUMMARY_CHUNK_CHARS = 100000;
+
+// Token estimates can be several times too low, e.g. for scripts with few characters per token
+const ESTIMATE_MARGIN = 4;
+
+// Methods of the original WebSocket protocol, served by MCPHandlers
+const LEGACY_METHODS = ['generate', 'stream', 'cancel', 'configure'];
+
+// Methods the core answers; request outcomes report any other method as 'other'
+const KNOWN_METHODS = [
+  'initialize', 'ping', 'tools/list', 'tools/call', 'prompts/list', 'prompts/get', 'resources/list',
+  'resources/templates/list', 'resources/read', 'completion/complete', 'logging/setLevel', ...LEGACY_METHODS
+];
+
+export interface GeminiServerOptions {
+  // Directory of additional *.json prompt templates
+  promptsDir?: string;
+  // Directory where chat sessions are persisted as JSON files
+  sessionsDir?: string;
+  // Custom session backend; takes precedence over sessionsDir
+  sessionStore?: SessionStore;
+  // Replace older turns with a rolling summary once a session grows past a threshold
+  compaction?: CompactionOptions;
+  // Bounds on the number, idle time and length of in-memory chat sessions
+  sessionLimits?: SessionLimits;
+  // Backoff for rate-limited and transiently failing Gemini calls
+  retry?: RetryOptions;
+  // Reuse answers to repeated deterministic calls; off when unset
+  cache?: ResponseCacheConfig;
+  // Check that prompts fit the model's context window before sending them
+  contextGuard?: ContextGuardOptions;
+  // Price table and daily persistence for usage accounting
+  usage?: UsageOptions;
+  // The only directory network clients may read images from and export transcripts to
+  filesDir?: string;
+}
+
+/**
+ * Client and request a notification belongs to. Notifications emitted
+ * without a target are meant for every client.
+ */
+export interface NotificationTarget {
+  protocol: ProtocolManager;
+  requestId: string | number;
+}
+
+/**
+ * How a request ended; 'cancelled' requests got no response. Unknown
+ * methods and tools are reported as 'other', so that clients can't add
+ * values without bound to whatever counts outcomes.
+ */
+export interface RequestOutcome {
+  method: string;
+  // Name of the tool for tools/call
+  tool?: string;
+  status: 'ok' | 'error' | 'cancelled';
+  durationMs: number;
+}
+
+/**
+ * A single attempt at a Gemini API call. For streams, it lasts until the
+ * stream opens.
+ */
+export interface GeminiCallTiming {
+  model: string;
+  operation: 'generate' | 'count_tokens';
+  durationMs: number;
+  ok: boolean;
+}
+
+/**
+ * Transport-agnostic MCP server for Gemini. Owns the tools, prompts,
+ * resources and lifecycle; transports feed it parsed requests and write
+ * back its responses. Server-initiated messages are emitted as
+ * 'notification' events, with an optional NotificationTarget, and chunks of
+ * legacy streams as targeted 'stream' events, for the transport to deliver.
+ * Tokens spent on each Gemini call are emitted as 'usage' events with the
+ * TokenUsage and the NotificationTarget of the request, and summed up in
+ * the usage ledger behind get_usage_report and gemini://usage. For
+ * metrics, every request emits a 'request' event with its RequestOutcome,
+ * every Gemini API attempt a 'gemini' event with its GeminiCallTiming, and
+ * every response cache lookup a 'cache' event with its CacheStatus.
+ */
+export class GeminiMCPCore extends EventEmitter {
+  private genAI: GoogleGenerativeAI;
+  private model: any;
+  private visionModel: any;
+  private sessions: ChatSessionManager;
+  // Last chat turn queued on each session; turns of the same session run one at a time
+  private sessionTurns: Map<string, Promise<unknown>> = new Map();
+  // Client that last used each chat session, the only one told when it is evicted
+  private sessionOwners: Map<string, NotificationTarget> = new Map();
+  private tools: ToolRegistry = new ToolRegistry();
+  private prompts: PromptRegistry = new PromptRegistry();
+  private promptsLoaded: Promise<void>;
+  private resources: ResourceRegistry = new ResourceRegistry();
+  private completions: CompletionRegistry = new CompletionRegistry();
+  private protocol: ProtocolManager = new ProtocolManager();
+  // In-flight requests of each client, keyed by request id, for notifications/cancelled
+  private inFlight: WeakMap<ProtocolManager, Map<string | number, AbortController>> = new WeakMap();
+  // Ids of each client's legacy streams that are still producing chunks
+  private legacyStreams: WeakMap<ProtocolManager, Set<string | number>> = new WeakMap();
+  private handlers: MCPHandlers;
+  private usageLedger: UsageLedger;
+  private inFlightCount = 0;
+
+  constructor(apiKey: string, private options: GeminiServerOptions = {}) {
+    super();
+    this.genAI = new GoogleGenerativeAI(apiKey);
+    this.model = this.genAI.getGenerativeModel({ model: DEFAULT_MODEL });
+    this.visionModel = this.genAI.getGenerativeModel({ model: DEFAULT_MODEL });
+    this.handlers = new MCPHandlers(this.model, this.protocol, process.env.DEBUG === 'true', options.retry);
+    this.handlers.on('response', (frame: MCPResponse, protocol: ProtocolManager) => this.forwardStreamFrame(frame, protocol));
+    this.usageLedger = new UsageLedger(options.usage);
+    this.sessions = new ChatSessionManager(
+      options.sessionStore || (options.sessionsDir ? new JsonFileSessionStore(options.sessionsDir) : undefined),
+      options.sessionLimits
+    );
+    this.sessions.on('evicted', (eviction: SessionEviction) => {
+      const owner = this.sessionOwners.get(eviction.sessionId);
+      this.sessionOwners.delete(eviction.sessionId);
+      if (!owner) {
+        return;
+      }
+      this.log('info', 'sessions', {
+        message: `Evicted chat session ${eviction.sessionId} (${eviction.reason})` +
+          (eviction.spilled ? '; it will be restored from disk on next use' : '; its history was discarded'),
+        ...eviction
+      }, owner);
+    });
+    this.registerTools();
+    this.registerResources();
+    this.registerCompletions();
+    this.promptsLoaded = this.loadPrompts(options.promptsDir)
+      .then(() => this.registerPromptCompletions());
+
+  }
+
+  /**
+   * Handles a single message or, when the negotiated protocol version allows
+   * it, a JSON-RPC batch. Returns null when nothing needs to be sent back.
+   * Transports can pass `handle` to wrap each request, e.g. in a scheduler.
+   */
+  async handleMessage(
+    message: MCPRequest | MCPRequest[],
+    protocol: ProtocolManager = this.protocol,
+    handle: (request: MCPRequest) => Promise<MCPResponse | null> = request => this.handleRequest(request, protocol)
+  ): Promise<MCPResponse | MCPResponse[] | null> {
+    if (!Array.isArray(message)) {
+      return handle(message);
+    }
+    if (!protocol.features.batching) {
+      return this.invalidBatch(`Batch requests are not supported in protocol version ${protocol.version}`);
+    }
+    if (message.length === 0) {
+      return this.invalidBatch('Empty batch');
+    }
+    const responses = (await Promise.all(message.map(handle)))
+      .filter((response): response is MCPResponse => response !== null);
+    return responses.length > 0 ? responses : null;
+  }
+
+  /**
+   * Handles a single JSON-RPC message. Returns null for notifications,
+   * which never get a response. `protocol` holds the calling client's
+   * negotiated version; transports with one client can rely on the default.
+   */
+  async handleRequest(request: MCPRequest, protocol: ProtocolManager = this.protocol): Promise<MCPResponse | null> {
+    if (request.method === 'notifications/cancelled') {
+      this.cancelRequest(request.params?.requestId, protocol);
+      return null;
+    }
+    if (request.method.startsWith('notifications/')) {
+      return null;
+    }
+
+    const startedAt = Date.now();
+    let status: RequestOutcome['status'] = 'error';
+    this.inFlightCount++;
+    try {
+      const response = await this.runRequest(request, protocol);
+      status = response === null ? 'cancelled' : response.error ? 'error' : 'ok';
+      return response;
+    } finally {
+      this.inFlightCount--;
+      const outcome: RequestOutcome = {
+        method: KNOWN_METHODS.includes(request.method) ? request.method : 'other',
+        tool: request.method === 'tools/call' ? (this.tools.has(request.params?.name) ? request.params.name : 'other') : undefined,
+        status,
+        durationMs: Date.now() - startedAt
+      };
+      this.emit('request', outcome, { protocol, requestId: request.id });
+    }
+  }
+
+  // Requests of every client that are being handled right now
+  get inFlightRequestCount(): number {
+    return this.inFlightCount;
+  }
+
+  private async runRequest(request: MCPRequest, protocol: ProtocolManager): Promise<MCPResponse | null> {
+    // initialize can't be cancelled
+    if (request.method === 'initialize') {
+      return this.handleInitialize(request, protocol);
+    }
+
+    const controller = new AbortController();
+    const inFlight = this.inFlightRequests(protocol);
+    inFlight.set(request.id, controller);
+    try {
+      const response = await this.dispatch(request, protocol, controller.signal);
+      // A cancelled request gets no response, even if it completed anyway
+      return controller.signal.aborted ? null : response;
+    } catch (error) {
+      if (controller.signal.aborted) {
+        return null;
+      }
+      throw error;
+    } finally {
+      if (inFlight.get(request.id) === controller) {
+        inFlight.delete(request.id);
+      }
+    }
+  }
+
+  private async dispatch(request: MCPRequest, protocol: ProtocolManager, signal: AbortSignal): Promise<MCPResponse> {
+    if (LEGACY_METHODS.includes(request.method)) {
+      return this.handleLegacyRequest(request, protocol);
+    }
+    
+    switch (request.method) {
+      case 'ping':
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          result: {}
+        };
+      
+      case 'tools/list':
+        return this.handleToolsList(request, protocol);
+        
+      case 'tools/call':
+        return this.handleToolsCall(request, protocol, signal);
+      
+      case 'prompts/list':
+        return this.handlePromptsList(request);
+
+      case 'prompts/get':
+        return this.handlePromptsGet(request);
+
+      case 'resources/list':
+        return this.handleResourcesList(request);
+
+      case 'resources/templates/list':
+        return this.handleResourceTemplatesList(request);
+
+      case 'resources/read':
+        return this.handleResourcesRead(request);
+
+      case 'completion/complete':
+        return this.handleCompletion(request);
+
+      case 'logging/setLevel':
+        return this.handleSetLogLevel(request, protocol);
+      
+      default:
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          error: {
+            code: -32601,
+            message: 'Method not found'
+          }
+        };
+    }
+  }
+
+  handleInitialize(request: MCPRequest, protocol: ProtocolManager = this.protocol): MCPResponse {
+    return {
+      jsonrpc: '2.0',
+      id: request.id,
+      result: protocol.initialize(request.params)
+    };
+  }
+
+  private invalidBatch(message: string): MCPResponse {
+    // JSON-RPC answers a rejected batch with a single error without an id
+    return { jsonrpc: '2.0', id: null, error: { code: ERROR_CODES.INVALID_REQUEST, message } };
+  }
+
+  // generate/stream/cancel/configure; MCPHandlers throws { code, message } on failure
+  private async handleLegacyRequest(request: MCPRequest, protocol: ProtocolManager): Promise<MCPResponse> {
+    try {
+      // Register before MCPHandlers starts streaming, so no chunk goes unrouted
+      if (request.method === 'stream') {
+        this.streamsOf(protocol).add(request.id);
+      }
+      const response = await this.handlers.handleRequest(request, protocol);
+      const metadata = response.result?.metadata;
+      if (metadata?.usage) {
+        this.recordUsage(metadata.usage, { model: metadata.model, tool: request.method }, { protocol, requestId: request.id });
+      }
+      return response;
+    } catch (error: any) {
+      this.legacyStreams.get(protocol)?.delete(request.id);
+      return this.errorResponse(request.id, error?.code ?? ERROR_CODES.INTERNAL_ERROR, error?.message ?? 'Internal server error', error?.data);
+    }
+  }
+
+  private streamsOf(protocol: ProtocolManager): Set<string | number> {
+    let streams = this.legacyStreams.get(protocol);
+    if (!streams) {
+      streams = new Set();
+      this.legacyStreams.set(protocol, streams);
+    }
+    return streams;
+  }
+
+  private inFlightRequests(protocol: ProtocolManager): Map<string | number, AbortController> {
+    let requests = this.inFlight.get(protocol);
+    if (!requests) {
+      requests = new Map();
+      this.inFlight.set(protocol, requests);
+    }
+    return requests;
+  }
+
+  /**
+   * Aborts an in-flight request of the client identified by `protocol`,
+   * including the Gemini call it is waiting on. Unknown ids are ignored,
+   * since the request may already have finished.
+   */
+  cancelRequest(requestId: string | number, protocol: ProtocolManager = this.protocol): void {
+    this.inFlight.get(protocol)?.get(requestId)?.abort();
+    this.handlers.cancelRequest(requestId, protocol);
+    this.legacyStreams.get(protocol)?.delete(requestId);
+  }
+
+  /**
+   * Emits a legacy stream chunk as a 'stream' event for the transport to
+   * deliver to the client that started the stream.
+   */
+  private forwardStreamFrame(frame: MCPResponse, protocol: ProtocolManager): void {
+    const streams = this.legacyStreams.get(protocol);
+    if (frame.id === null || !streams?.has(frame.id)) {
+      return;
+    }
+    const target: NotificationTarget = { protocol, requestId: frame.id };
+    if (frame.error || frame.result?.done) {
+      streams.delete(frame.id);
+    }
+    const metadata = frame.result?.metadata;
+    if (metadata?.usage) {
+      this.recordUsage(metadata.usage, { model: metadata.model, tool: 'stream' }, target);
+    }
+    this.emit('stream', frame, target);
+  }
+
+  handleToolsList(request: MCPRequest, protocol: ProtocolManager = this.protocol): MCPResponse {
+    const { toolAnnotations, structuredContent } = protocol.features;
+    return {
+      jsonrpc: '2.0',
+      id: request.id,
+      result: {
+        tools: this.tools.list().map(({ annotations, outputSchema, ...tool }) => ({
+          ...tool,
+          ...(toolAnnotations && annotations && { annotations }),
+          ...(structuredContent && outputSchema && { outputSchema })
+        }))
+      }
+    };
+  }
+
+  async handleToolsCall(
+    request: MCPRequest,
+    protocol: ProtocolManager = this.protocol,
+    signal: AbortSignal = new AbortController().signal
+  ): Promise<MCPResponse> {
+    const toolName = request.params?.name;
+    const args = request.params?.arguments || {};
+
+    const progressToken = request.params?._meta?.progressToken;
+    let finished = false;
+    const reportProgress: ProgressReporter | undefined = progressToken === undefined ? undefined :
+      (progress, total, message) => {
+        // Progress stops with the request, whether it completed or was cancelled
+        if (!finished && !signal.aborted) {
+          this.sendNotification(
+            'notifications/progress',
+            protocol.createProgressNotification(progressToken, progress, total, message),
+            { protocol, requestId: request.id }
+          );
+        }
+      };
+
+    const sendPartialText = (text: string) => {
+      if (!finished && !signal.aborted) {
+        this.log('info', 'gemini-stream', { requestId: request.id, text }, { protocol, requestId: request.id });
+      }
+    };
+
+    // Tokens count even when the request was cancelled after the call
+    const callUsage = emptyTotals();
+    const reportUsage = (usage: TokenUsage, source: UsageSource) => {
+      const costUsd = this.recordUsage(usage, { ...source, tool: toolName }, { protocol, requestId: request.id });
+      addUsage(callUsage, usage, costUsd);
+    };
+
+    const cacheStatuses: CacheStatus[] = [];
+    const reportCache = (status: CacheStatus) => {
+      cacheStatuses.push(status);
+      this.emit('cache', status);
+    };
+
+    const warn = (logger: string, data: unknown) => this.log('warning', logger, data, { protocol, requestId: request.id });
+    const files = { local: protocol.local, dir: this.options.filesDir };
+    const claimSession = (sessionId: string) => this.sessionOwners.set(sessionId, { protocol, requestId: request.id });
+
+    try {
+      const response = await this.tools.call(request.id, toolName, args, {
+        signal, reportProgress, sendPartialText, reportUsage, reportCache, warn, files, claimSession
+      });
+      if (response.result?.structuredContent && !protocol.features.structuredContent) {
+        delete response.result.structuredContent;
+      }
+      // A tool that asked Gemini several times only counts as a hit if every answer came from the cache
+      if (response.result && cacheStatuses.length > 0) {
+        const cache = cacheStatuses.includes('miss') ? 'miss' : cacheStatuses.includes('hit') ? 'hit' : 'bypass';
+        response.result._meta = { ...response.result._meta, cache };
+      }
+      if (response.result && callUsage.calls > 0) {
+        response.result._meta = { ...response.result._meta, usage: callUsage };
+      }
+      return response;
+    } catch (error) {
+      if (error instanceof FileAccessError) {
+        return this.errorResponse(request.id, error.code, error.message);
+      }
+      const geminiError = toGeminiError(error);
+      if (geminiError) {
+        return this.errorResponse(request.id, geminiError.code, geminiError.message, geminiError.data);
+      }
+      return {
+        jsonrpc: '2.0',
+        id: request.id,
+        error: {
+          code: -32603,
+          message: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+        }
+      };
+    } finally {
+      finished = true;
+    }
+  }
+
+  async handlePromptsList(request: MCPRequest): Promise<MCPResponse> {
+    await this.promptsLoaded;
+    return {
+      jsonrpc: '2.0',
+      id: request.id,
+      result: {
+        prompts: this.prompts.list()
+      }
+    };
+  }
+
+  async handlePromptsGet(request: MCPRequest): Promise<MCPResponse> {
+    await this.promptsLoaded;
+    const name = request.params?.name;
+    const args = request.params?.arguments || {};
+
+    return this.prompts.render(request.id, name, args);
+  }
+
+  async handleResourcesList(request: MCPRequest): Promise<MCPResponse> {
+    return {
+      jsonrpc: '2.0',
+      id: request.id,
+      result: {
+        resources: await this.resources.list()
+      }
+    };
+  }
+
+  handleResourceTemplatesList(request: MCPRequest): MCPResponse {
+    return {
+      jsonrpc: '2.0',
+      id: request.id,
+      result: {
+        resourceTemplates: this.resources.listTemplates()
+      }
+    };
+  }
+
+  async handleResourcesRead(request: MCPRequest): Promise<MCPResponse> {
+    const uri = request.params?.uri;
+    if (typeof uri !== 'string') {
+      return this.errorResponse(request.id, -32602, 'Missing uri parameter');
+    }
+
+    try {
+      return await this.resources.read(request.id, uri);
+    } catch (error) {
+      return this.errorResponse(request.id, -32603, `Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async handleCompletion(request: MCPRequest): Promise<MCPResponse> {
+    await this.promptsLoaded;
+    return this.completions.complete(request.id, request.params?.ref, request.params?.argument);
+  }
+
+  handleSetLogLevel(request: MCPRequest, protocol: ProtocolManager = this.protocol): MCPResponse {
+    const level = request.params?.level;
+    if (!LOG_LEVELS.includes(level)) {
+      return this.errorResponse(request.id, -32602, `Invalid log level: ${level}`);
+    }
+    protocol.setLogLevel(level);
+    return {
+      jsonrpc: '2.0',
+      id: request.id,
+      result: {}
+    };
+  }
+
+  // Tool names are accepted as prompt references too, so clients can complete tool arguments
+  private registerCompletions(): void {
+    const sessionIds = () => this.sessions.ids();
+
+    for (const tool of this.tools.list()) {
+      for (const [argument, schema] of Object.entries(tool.inputSchema.properties || {})) {
+        if (schema.enum) {
+          this.completions.registerPromptArgument(tool.name, argument, schema.enum);
+        }
+      }
+    }
+
+    for (const name of ['generate_code', 'explain_code', 'refactor_code', 'code_review']) {
+      this.completions.registerPromptArgument(name, 'language', PROGRAMMING_LANGUAGES);
+    }
+    this.completions.registerPromptArgument('convert_code', 'sourceLanguage', PROGRAMMING_LANGUAGES);
+    this.completions.registerPromptArgument('convert_code', 'targetLanguage', PROGRAMMING_LANGUAGES);
+
+    for (const name of ['translate_text', 'translate_with_glossary']) {
+      this.completions.registerPromptArgument(name, 'sourceLanguage', NATURAL_LANGUAGES);
+      this.completions.registerPromptArgument(name, 'targetLanguage', NATURAL_LANGUAGES);
+    }
+    this.completions.registerPromptArgument('rewrite_text', 'style', WRITING_STYLES);
+
+    for (const name of [
+      'chat',
+      'update_chat_session',
+      'clear_chat_history',
+      'summarize_conversation',
+      'fork_chat_session',
+      'rewind_chat_session',
+      'export_chat_session'
+    ]) {
+      this.completions.registerPromptArgument(name, 'sessionId', sessionIds);
+    }
+    this.completions.registerResourceVariable('gemini://sessions/{sessionId}{?format}', 'sessionId', sessionIds);
+    this.completions.registerResourceVariable('gemini://sessions/{sessionId}{?format}', 'format', ['markdown', 'json']);
+  }
+
+  // Prompt arguments with a fixed set of values, including templates loaded from promptsDir
+  private registerPromptCompletions(): void {
+    for (const { name } of this.prompts.list()) {
+      for (const argument of this.prompts.get(name)?.arguments || []) {
+        if (argument.enum) {
+          this.completions.registerPromptArgument(name, argument.name, argument.enum);
+        }
+      }
+    }
+  }
+
+  private registerResources(): void {
+    this.resources.register({
+      uri: 'gemini://server/config',
+      name: 'Server configuration',
+      description: 'Models, server info and options of this Gemini MCP server',
+      mimeType: 'application/json',
+      read: async () => ({
+        text: JSON.stringify({
+          serverInfo: SERVER_INFO,
+          models: {
+            text: DEFAULT_MODEL,
+            vision: DEFAULT_MODEL
+          },
+          promptsDir: this.options.promptsDir || null,
+          sessionsDir: this.options.sessionStore ? null : this.options.sessionsDir || null,
+          compaction: this.options.compaction || null,
+          sessionLimits: this.options.sessionLimits || null
+        }, null, 2)
+      })
+    });
+
+    this.resources.register({
+      uri: 'gemini://server/tools',
+      name: 'Tool catalogue',
+      description: 'All tools exposed by this server with their input schemas',
+      mimeType: 'application/json',
+      read: async () => ({
+        text: JSON.stringify(this.tools.list(), null, 2)
+      })
+    });
+
+    this.resources.register({
+      uri: 'gemini://usage',
+      name: 'Usage report',
+      description: 'Tokens and estimated cost of Gemini calls since the server started and today, by model, tool, chat session and client',
+      mimeType: 'application/json',
+      read: async () => ({
+        text: JSON.stringify(await this.usageLedger.report(), null, 2)
+      })
+    });
+
+    this.resources.registerTemplate({
+      uriTemplate: 'gemini://sessions/{sessionId}{?format}',
+      name: 'Chat session transcript',
+      description: 'Transcript of a chat session as markdown, or as JSON with ?format=json',
+      mimeType: 'text/markdown',
+      list: async () => (await this.sessions.ids()).map(sessionId => ({
+        uri: `gemini://sessions/${encodeURIComponent(sessionId)}`,
+        name: `Chat session: ${sessionId}`,
+        mimeType: 'text/markdown'
+      })),
+      read: async ({ sessionId, format }) => {
+        const session = await this.sessions.peek(sessionId);
+        if (!session) {
+          return undefined;
+        }
+        const transcriptFormat: TranscriptFormat = format === 'json' ? 'json' : 'markdown';
+        return {
+          text: formatTranscript(sessionId, session.history, transcriptFormat, session.summary),
+          mimeType: transcriptFormat === 'json' ? 'application/json' : 'text/markdown'
+        };
+      }
+    });
+  }
+
+  private async loadPrompts(promptsDir?: string): Promise<void> {
+    if (!promptsDir) {
+      return;
+    }
+    try {
+      const loaded = await this.prompts.loadDirectory(promptsDir);
+      console.error(`Loaded ${loaded.length} prompt template(s) from ${promptsDir}`);
+    } catch (error) {
+      console.error(`Failed to load prompt templates from ${promptsDir}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  private registerTools(): void {
+    const tools: ToolDefinition[] = [
+      // Text Generation
+      {
+        name: 'generate_text',
+        description: 'Generate text using Google Gemini',
+        annotations: { title: 'Generate Text', ...GEMINI_QUERY },
+        inputSchema: {
+          type: 'object',
+          properties: {
+            prompt: {
+              type: 'string',
+              description: 'The prompt for text generation'
+            },
+            temperature: {
+              type: 'number',
+              description: 'Temperature for generation (0.0 to 1.0)',
+              minimum: 0,
+              maximum: 1,
+              default: 0.7
+            },
+            maxTokens: {
+              type: 'number',
+              description: 'Maximum number of tokens to generate',
+              default: 1000
+            },
+            cache: {
+              type: 'boolean',
+              description: 'Use the response cache even though temperature is above 0',
+              default: false
+            },
+            stream: STREAM_PROPERTY
+          },
+          required: ['prompt']
+        },
+        handler: (id, args, context) => this.generateText(id, args, context)
+      },
+
+      // Image Analysis
+      {
+        name: 'analyze_image',
+        description: 'Analyze an image and answer questions about it',
+        annotations: { title: 'Analyze Image', ...GEMINI_QUERY },
+        inputSchema: {
+          type: 'object',
+          properties: {
+            imagePath: {
+              type: 'string',
+              description: 'Path to the image file'
+            },
+            imageBase64: {
+              type: 'string',
+              description: 'Base64 encoded image data (alternative to imagePath)'
+            },
+            prompt: {
+              type: 'string',
+              description: 'Question or instruction about the image',
+              default: 'Describe this image in detail'
+            }
+          },
+          oneOf: [
+            { required: ['imagePath', 'prompt'] },
+            { required: ['imageBase64', 'prompt'] }
+          ]
+        },
+        handler: (id, args, context) => this.analyzeImage(id, args, context)
+      },
+
+      {
+        name: 'extract_text_from_image',
+        description: 'Extract text (OCR) from an image',
+        annotations: { title: 'Extract Text from Image', ...GEMINI_QUERY },
+        inputSchema: {
+          type: 'object',
+          properties: {
+            imagePath: {
+              type: 'string',
+              description: 'Path to the image file'
+            },
+            imageBase64: {
+              type: 'string',
+              description: 'Base64 encoded image data (alternative to imagePath)'
+            }
+          },
+          oneOf: [
+            { required: ['imagePath'] },
+            { required: ['imageBase64'] }
+          ]
+        },
+        handler: (id, args, context) => this.extractTextFromImage(id, args, context)
+      },
+
+      {
+        name: 'compare_images',
+        description: 'Compare multiple images and describe differences/similarities',
+        annotations: { title: 'Compare Images', ...GEMINI_QUERY },
+        inputSchema: {
+          type: 'object',
+          properties: {
+            images: {
+              type: 'array',
+              description: 'Array of image paths or base64 strings',
+              items: {
+                type: 'object',
+                properties: {
+                  path: { type: 'string' },
+                  base64: { type: 'string' }
+                }
+              },
+              minItems: 2,
+              maxItems: 5
+            },
+            prompt: {
+              type: 'string',
+              description: 'Specific comparison instruction',
+              default: 'Compare these images and describe their similarities and differences'
+            }
+          },
+          required: ['images']
+        },
+        handler: (id, args, context) => this.compareImages(id, args, context)
+      },
+
+      // Code Generation
+      {
+        name: 'generate_code',
+        description: 'Generate code in a specific programming language',
+        annotations: { title: 'Generate Code', ...GEMINI_QUERY },
+        inputSchema: {
+          type: 'object',
+          properties: {
+            prompt: {
+              type: 'string',
+              description: 'Description of what the code should do'
+            },
+            language: {
+              type: 'string',
+              description: 'Programming language (e.g., python, javascript, typescript, java, go, rust)',
+              default: 'python'
+            },
+            framework: {
+              type: 'string',
+              description: 'Optional framework/library to use (e.g., react, django, express)'
+            },
+            stream: STREAM_PROPERTY
+          },
+          required: ['prompt']
+        },
+        handler: (id, args, context) => this.generateCode(id, args, context)
+      },
+
+      {
+        name: 'explain_code',
+        description: 'Analyze and explain code',
+        annotations: { title: 'Explain Code', ...GEMINI_QUERY },
+        inputSchema: {
+          type: 'object',
+          properties: {
+            code: {
+              type: 'string',
+              description: 'The code to analyze'
+            },
+            language: {
+              type: 'string',
+              description: 'Programming language (optional, will be detected if not provided)'
+            },
+            stream: STREAM_PROPERTY
+          },
+          required: ['code']
+        },
+        handler: (id, args, context) => this.explainCode(id, args, context)
+      },
+
+      {
+        name: 'refactor_code',
+        description: 'Suggest improvements and refactor code',
+        annotations: { title: 'Refactor Code', ...GEMINI_QUERY },
+        inputSchema: {
+          type: 'object',
+          properties: {
+            code: {
+              type: 'string',
+              description: 'The code to refactor'
+            },
+            language: {
+              type: 'string',
+              description: 'Programming language'
+            },
+            goals: {
+              type: 'array',
+              description: 'Refactoring goals (e.g., "improve readability", "optimize performance", "add type safety")',
+              items: { type: 'string' }
+            },
+            stream: STREAM_PROPERTY
+          },
+          required: ['code']
+        },
+        handler: (id, args, context) => this.refactorCode(id, args, context)
+      },
+
+      {
+        name: 'convert_code',
+        description: 'Convert code from one language to another',
+        annotations: { title: 'Convert Code', ...GEMINI_QUERY },
+        inputSchema: {
+          type: 'object',
+          properties: {
+            code: {
+              type: 'string',
+              description: 'The source code'
+            },
+            sourceLanguage: {
+              type: 'string',
+              description: 'Source programming language'
+            },
+            targetLanguage: {
+              type: 'string',
+              description: 'Target programming language'
+            },
+            stream: STREAM_PROPERTY
+          },
+          required: ['code', 'targetLanguage']
+        },
+        handler: (id, args, context) => this.convertCode(id, args, context)
+      },
+
+      // Chat Conversation
+      {
+        name: 'chat',
+        description: 'Have a conversation with context memory',
+        annotations: { title: 'Chat', readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
+        inputSchema: {
+          type: 'object',
+          properties: {
+            message: {
+              type: 'string',
+              description: 'Your message'
+            },
+            sessionId: {
+              type: 'string',
+              description: 'Session ID to maintain context (defaults to "default")',
+              default: 'default'
+            },
+            stream: STREAM_PROPERTY,
+            // Only used when the session is created; use update_chat_session to change them later
+            ...SESSION_CONFIG_PROPERTIES
+          },
+          required: ['message']
+        },
+        handler: (id, args, context) => this.chat(id, args, context)
+      },
+
+      {
+        name: 'update_chat_session',
+        description: 'Change the system prompt, model or generation settings of a chat session',
+        annotations: { title: 'Update Chat Session', readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: false },
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: {
+              type: 'string',
+              description: 'Session ID to update (defaults to "default"); created if it does not exist',
+              default: 'default'
+            },
+            ...SESSION_CONFIG_PROPERTIES
+          }
+        },
+        outputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: { type: 'string' },
+            systemPrompt: { type: 'string' },
+            model: { type: 'string' },
+            generationConfig: { type: 'object' }
+          },
+          required: ['sessionId', 'model', 'generationConfig']
+        },
+        handler: (id, args, context) => this.updateChatSession(id, args, context)
+      },
+
+      {
+        name: 'clear_chat_history',
+        description: 'Clear conversation history for a session',
+        annotations: { title: 'Clear Chat History', readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: false },
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: {
+              type: 'string',
+              description: 'Session ID to clear (defaults to "default")',
+              default: 'default'
+            }
+          }
+        },
+        handler: (id, args) => this.clearChatHistory(id, args)
+      },
+
+      {
+        name: 'summarize_conversation',
+        description: 'Get a summary of the conversation',
+        annotations: { title: 'Summarize Conversation', ...GEMINI_QUERY },
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: {
+              type: 'string',
+              description: 'Session ID to summarize (defaults to "default")',
+              default: 'default'
+            }
+          }
+        },
+        handler: (id, args, context) => this.summarizeConversation(id, args, context)
+      },
+
+      {
+        name: 'list_chat_sessions',
+        description: 'List chat sessions with turn counts, timestamps and token estimates',
+        annotations: { title: 'List Chat Sessions', readOnlyHint: true, openWorldHint: false },
+        inputSchema: {
+          type: 'object',
+          properties: {}
+        },
+        outputSchema: {
+          type: 'object',
+          properties: {
+            sessions: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  sessionId: { type: 'string' },
+                  model: { type: 'string' },
+                  turns: { type: 'integer' },
+                  createdAt: { type: 'string' },
+                  lastUsedAt: { type: 'string' },
+                  estimatedTokens: { type: 'integer' },
+                  compacted: { type: 'boolean' }
+                },
+                required: ['sessionId', 'model', 'turns', 'createdAt', 'lastUsedAt', 'estimatedTokens', 'compacted']
+              }
+            }
+          },
+          required: ['sessions']
+        },
+        handler: (id, args) => this.listChatSessions(id, args)
+      },
+
+      {
+        name: 'fork_chat_session',
+        description: 'Copy a chat session into a new session to explore an alternative direction',
+        annotations: { title: 'Fork Chat Session', readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: false },
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: {
+              type: 'string',
+              description: 'Session ID to fork (defaults to "default")',
+              default: 'default'
+            },
+            newSessionId: {
+              type: 'string',
+              description: 'ID for the new session (generated if not provided)'
+            }
+          }
+        },
+        handler: (id, args, context) => this.forkChatSession(id, args, context)
+      },
+
+      {
+        name: 'rewind_chat_session',
+        description: 'Remove the most recent turns from a chat session',
+        annotations: { title: 'Rewind Chat Session', readOnlyHint: false, destructiveHint: true, idempotentHint: false, openWorldHint: false },
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: {
+              type: 'string',
+              description: 'Session ID to rewind (defaults to "default")',
+              default: 'default'
+            },
+            turns: {
+              type: 'integer',
+              description: 'Number of turns (message and reply) to remove',
+              minimum: 1,
+              default: 1
+            }
+          }
+        },
+        handler: (id, args) => this.rewindChatSession(id, args)
+      },
+
+      {
+        name: 'export_chat_session',
+        description: 'Export a chat session transcript as markdown or JSON',
+        annotations: { title: 'Export Chat Session', readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: false },
+        inputSchema: {
+          type: 'object',
+          properties: {
+            sessionId: {
+              type: 'string',
+              description: 'Session ID to export (defaults to "default")',
+              default: 'default'
+            },
+            format: {
+              type: 'string',
+              enum: ['markdown', 'json'],
+              description: 'Transcript format',
+              default: 'markdown'
+            },
+            outputPath: {
+              type: 'string',
+              description: 'File to write the transcript to (returned inline if not provided)'
+            }
+          }
+        },
+        handler: (id, args, context) => this.exportChatSession(id, args, context)
+      },
+
+      // Content Creation
+      {
+        name: 'translate_text',
+        description: 'Translate text between languages',
+        annotations: { title: 'Translate Text', ...GEMINI_QUERY },
+        inputSchema: {
+          type: 'object',
+          properties: {
+            text: {
+              type: 'string',
+              description: 'Text to translate'
+            },
+            targetLanguage: {
+              type: 'string',
+              description: 'Target language (e.g., "Spanish", "French", "Japanese", "zh-CN")'
+            },
+            sourceLanguage: {
+              type: 'string',
+              description: 'Source language (optional, will be detected if not provided)'
+            }
+          },
+          required: ['text', 'targetLanguage']
+        },
+        handler: (id, args, context) => this.translateText(id, args, context)
+      },
+
+      {
+        name: 'summarize_text',
+        description: 'Create a summary of text',
+        annotations: { title: 'Summarize Text', ...GEMINI_QUERY },
+        inputSchema: {
+          type: 'object',
+          properties: {
+            text: {
+              type: 'string',
+              description: 'Text to summarize'
+            },
+            style: {
+              type: 'string',
+              enum: ['brief', 'detailed', 'bullet-points', 'executive'],
+              description: 'Summary style',
+              default: 'brief'
+            },
+            maxLength: {
+              type: 'number',
+              description: 'Maximum length in words (optional)'
+            }
+          },
+          required: ['text']
+        },
+        handler: (id, args, context) => this.summarizeText(id, args, context)
+      },
+
+      {
+        name: 'rewrite_text',
+        description: 'Rewrite text in a different style or tone',
+        annotations: { title: 'Rewrite Text', ...GEMINI_QUERY },
+        inputSchema: {
+          type: 'object',
+          properties: {
+            text: {
+              type: 'string',
+              description: 'Text to rewrite'
+            },
+            style: {
+              type: 'string',
+              description: 'Target style (e.g., "formal", "casual", "technical", "simple", "creative")'
+            },
+            targetAudience: {
+              type: 'string',
+              description: 'Target audience (e.g., "children", "professionals", "academics")'
+            }
+          },
+          required: ['text', 'style']
+        },
+        handler: (id, args, context) => this.rewriteText(id, args, context)
+      },
+
+      {
+        name: 'generate_structured_data',
+        description: 'Generate structured data (JSON, YAML, CSV, etc.)',
+        annotations: { title: 'Generate Structured Data', ...GEMINI_QUERY },
+        inputSchema: {
+          type: 'object',
+          properties: {
+            prompt: {
+              type: 'string',
+              description: 'Description of the data to generate'
+            },
+            format: {
+              type: 'string',
+              enum: ['json', 'yaml', 'csv', 'xml', 'toml'],
+              description: 'Output format',
+              default: 'json'
+            },
+            schema: {
+              type: 'object',
+              description: 'Optional schema or example structure'
+            }
+          },
+          required: ['prompt']
+        },
+        handler: (id, args, context) => this.generateStructuredData(id, args, context)
+      },
+
+      // Safety & Moderation
+      {
+        name: 'check_content_safety',
+        description: 'Analyze content for safety issues',
+        annotations: { title: 'Check Content Safety', ...GEMINI_QUERY },
+        inputSchema: {
+          type: 'object',
+          properties: {
+            content: {
+              type: 'string',
+              description: 'Content to analyze'
+            },
+            categories: {
+              type: 'array',
+              description: 'Specific categories to check',
+              items: {
+                type: 'string',
+                enum: ['harassment', 'hate', 'sexual', 'dangerous', 'medical', 'deception']
+              }
+            }
+          },
+          required: ['content']
+        },
+        handler: (id, args, context) => this.checkContentSafety(id, args, context)
+      },
+
+      {
+        name: 'moderate_text',
+        description: 'Filter and clean inappropriate content',
+        annotations: { title: 'Moderate Text', ...GEMINI_QUERY },
+        inputSchema: {
+          type: 'object',
+          properties: {
+            text: {
+              type: 'string',
+              description: 'Text to moderate'
+            },
+            level: {
+              type: 'string',
+              enum: ['strict', 'moderate', 'lenient'],
+              description: 'Moderation level',
+              default: 'moderate'
+            }
+          },
+          required: ['text']
+        },
+        handler: (id, args, context) => this.moderateText(id, args, context)
+      },
+
+      // Response Cache
+      {
+        name: 'clear_cache',
+        description: 'Remove all cached Gemini responses',
+        annotations: { title: 'Clear Cache', readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: false },
+        inputSchema: {
+          type: 'object',
+          properties: {}
+        },
+        handler: (id) => this.clearCache(id)
+      },
+
+      // Token Counting
+      {
+        name: 'count_tokens',
+        description: 'Count the tokens of text, code, images or a chat session before sending them to Gemini',
+        annotations: { title: 'Count Tokens', ...GEMINI_QUERY },
+        inputSchema: {
+          type: 'object',
+          properties: {
+            text: {
+              type: 'string',
+              description: 'Text to count'
+            },
+            code: {
+              type: 'string',
+              description: 'Source code to count'
+            },
+            images: {
+              type: 'array',
+              description: 'Array of image paths or base64 strings',
+              items: {
+                type: 'object',
+                properties: {
+                  path: { type: 'string' },
+                  base64: { type: 'string' }
+                }
+              }
+            },
+            sessionId: {
+              type: 'string',
+              description: 'Chat session whose history, system prompt and model to count with; the other inputs are counted as its next message'
+            },
+            model: {
+              type: 'string',
+              description: `Gemini model to count for (defaults to ${DEFAULT_MODEL}); ignored with sessionId`
+            }
+          }
+        },
+        outputSchema: {
+          type: 'object',
+          properties: {
+            model: { type: 'string' },
+            totalTokens: { type: 'integer' },
+            contextWindow: { type: 'integer' },
+            remainingTokens: { type: 'integer' }
+          },
+          required: ['model', 'totalTokens', 'contextWindow', 'remainingTokens']
+        },
+        handler: (id, args, context) => this.countTokens(id, args, context)
+      },
+
+      // Usage
+      {
+        name: 'get_usage_report',
+        description: 'Report the tokens and estimated cost of Gemini calls by model, tool, chat session and client',
+        annotations: { title: 'Get Usage Report', readOnlyHint: true, openWorldHint: false },
+        inputSchema: {
+          type: 'object',
+          properties: {
+            date: {
+              type: 'string',
+              description: 'UTC day (YYYY-MM-DD) to report on instead of the lifetime and today totals; earlier days need usage persistence'
+            }
+          }
+        },
+        handler: (id, args) => this.getUsageReport(id, args)
+      }
+    ];
+
+    tools.forEach(tool => this.tools.register(tool));
+  }
+
+  // Text Generation
+  private async generateText(id: string | number, args: any, context: ToolContext): Promise<MCPResponse> {
+    const { prompt, temperature = 0.7, maxTokens = 1000, stream = false, cache = false } = args;
+    
+    if (!prompt) {
+      return this.errorResponse(id, -32602, 'Missing prompt parameter');
+    }
+
+    const result = await this.generateContent(this.model, {
+      contents: [{ role: 'user', parts: [{ text: prompt }] }],
+      generationConfig: {
+        temperature,
+        maxOutputTokens: maxTokens
+      }
+    }, context, stream, cache);
+    
+    return {
+      jsonrpc: '2.0',
+      id,
+      result: {
+        content: [{
+          type: 'text',
+          text: this.responseText(result)
+        }]
+      }
+    };
+  }
+
+  // Image Analysis Methods
+  private async analyzeImage(id: string | number, args: any, context: ToolContext): Promise<MCPResponse> {
+    const { imagePath, imageBase64, prompt = 'Describe this image in detail' } = args;
+    
+    let imageData;
+    if (imagePath) {
+      const imageBuffer = await fs.readFile(await resolveReadPath(imagePath, context.files));
+      imageData = {
+        inlineData: {
+          data: imageBuffer.toString('base64'),
+          mimeType: this.getMimeType(imagePath)
+        }
+      };
+    } else if (imageBase64) {
+      imageData = {
+        inlineData: {
+          data: imageBase64,
+          mimeType: 'image/jpeg' // Default, could be improved
+        }
+      };
+    } else {
+      return this.errorResponse(id, -32602, 'Missing image data');
+    }
+
+    const result = await this.generateContent(this.visionModel, {
+      contents: [{
+        role: 'user',
+        parts: [
+          { text: prompt },
+          imageData
+        ]
+      }]
+    }, context);
+
+    return {
+      jsonrpc: '2.0',
+      id,
+      result: {
+        content: [{
+          type: 'text',
+          text: this.responseText(result)
+        }]
+      }
+    };
+  }
+
+  private async extractTextFromImage(id: string | number, args: any, context: ToolContext): Promise<MCPResponse> {
+    const modifiedArgs = {
+      ...args,
+      prompt: 'Extract all text from this image. Provide only the extracted text without any additional commentary.'
+    };
+    return this.analyzeImage(id, modifiedArgs, context);
+  }
+
+  private async compareImages(id: string | number, args: any, context: ToolContext): Promise<MCPResponse> {
+    const { images, prompt = 'Compare these images and describe their similarities and differences' } = args;
+    
+    if (!images || images.length < 2) {
+      return this.errorResponse(id, -32602, 'At least 2 images required');
+    }
+
+    // One step per image, plus the comparison itself
+    const totalSteps = images.length + 1;
+    let loaded = 0;
+    const imageParts = await Promise.all(images.map(async (img: any) => {
+      const part = await this.loadImagePart(img, context);
+      loaded++;
+      context.reportProgress?.(loaded, totalSteps, `Loaded image ${loaded} of ${images.length}`);
+      return part;
+    }));
+
+    const request: GenerateContentRequest = {
+      contents: [{
+        role: 'user',
+        parts: [
+          { text: prompt },
+          ...imageParts
+        ]
+      }]
+    };
+    await this.checkContextLimit(this.visionModel, request, context);
+    const result = this.trackUsage(await this.retry<GenerateContentResult>(
+      () => this.visionModel.generateContent(request, { signal: context.signal }),
+      context.signal,
+      this.visionModel
+    ), context, this.visionModel);
+    context.reportProgress?.(totalSteps, totalSteps, 'Comparison complete');
+
+    return {
+      jsonrpc: '2.0',
+      id,
+      result: {
+        content: [{
+          type: 'text',
+          text: this.responseText(result)
+        }]
+      }
+    };
+  }
+
+  private async loadImagePart(img: any, context: ToolContext): Promise<any> {
+    if (img.path) {
+      const imageBuffer = await fs.readFile(await resolveReadPath(img.path, context.files));
+      return {
+        inlineData: {
+          data: imageBuffer.toString('base64'),
+          mimeType: this.getMimeType(img.path)
+        }
+      };
+    } else if (img.base64) {
+      return {
+        inlineData: {
+          data: img.base64,
+          mimeType: 'image/jpeg'
+        }
+      };
+    }
+  }
+
+  // Code Generation Methods
+  private async generateCode(id: string | number, args: any, context: ToolContext): Promise<MCPResponse> {
+    const { prompt, language = 'python', framework } = args;
+    
+    const fullPrompt = `Generate ${language} code${framework ? ` using ${framework}` : ''} for the following requirement:\n\n${prompt}\n\nProvide only the code with appropriate comments. Use best practices and proper error handling.`;
+    
+    return this.generateText(id, { prompt: fullPrompt, stream: args.stream }, context);
+  }
+
+  private async explainCode(id: string | number, args: any, context: ToolContext): Promise<MCPResponse> {
+    const { code, language } = args;
+    
+    const fullPrompt = `Explain the following${language ? ` ${language}` : ''} code in detail:\n\n\`\`\`${language || ''}\n${code}\n\`\`\`\n\nProvide a comprehensive explanation including what it does, how it works, and any important considerations.`;
+    
+    return this.generateText(id, { prompt: fullPrompt, temperature: this.inputBoundTemperature, stream: args.stream }, context);
+  }
+
+  private async refactorCode(id: string | number, args: any, context: ToolContext): Promise<MCPResponse> {
+    const { code, language, goals = [] } = args;
+    
+    const goalsList = goals.length > 0 ? `\nRefactoring goals: ${goals.join(', ')}` : '';
+    const fullPrompt = `Refactor the following${language ? ` ${language}` : ''} code${goalsList}:\n\n\`\`\`${language || ''}\n${code}\n\`\`\`\n\nProvide the refactored code with explanations of the changes made.`;
+    
+    return this.generateText(id, { prompt: fullPrompt, stream: args.stream }, context);
+  }
+
+  private async convertCode(id: string | number, args: any, context: ToolContext): Promise<MCPResponse> {
+    const { code, sourceLanguage, targetLanguage } = args;
+    
+    const fullPrompt = `Convert the following code from ${sourceLanguage || 'the source language'} to ${targetLanguage}:\n\n\`\`\`${sourceLanguage || ''}\n${code}\n\`\`\`\n\nProvide the converted code maintaining the same functionality and using idiomatic ${targetLanguage} patterns.`;
+    
+    return this.generateText(id, { prompt: fullPrompt, temperature: this.inputBoundTemperature, stream: args.stream }, context);
+  }
+
+  // Chat Conversation Methods
+  private async chat(id: string | number, args: any, context: ToolContext): Promise<MCPResponse> {
+    const { message, sessionId = 'default', systemPrompt, model, stream = false } = args;
+    
+    context.claimSession?.(sessionId);
+    const result = await this.inSessionTurn(sessionId, async () => {
+      const session = await this.sessions.get(sessionId) || this.sessions.create(sessionId, {
+        systemPrompt,
+        model,
+        generationConfig: this.toGenerationConfig(args)
+      });
+      return this.sendChatMessage(session, message, context, stream);
+    });
+    
+    return {
+      jsonrpc: '2.0',
+      id,
+      result: {
+        content: [{
+          type: 'text',
+          text: this.responseText(result)
+        }]
+      }
+    };
+  }
+
+  private async clearChatHistory(id: string | number, args: any): Promise<MCPResponse> {
+    const { sessionId = 'default' } = args;
+    
+    await this.sessions.delete(sessionId);
+    this.sessionOwners.delete(sessionId);
+    
+    return {
+      jsonrpc: '2.0',
+      id,
+      result: {
+        content: [{
+          type: 'text',
+          text: `Chat history cleared for session: ${sessionId}`
+        }]
+      }
+    };
+  }
+
+  private async summarizeConversation(id: string | number, args: any, context: ToolContext): Promise<MCPResponse> {
+    const { sessionId = 'default' } = args;
+    
+    const session = await this.sessions.get(sessionId);
+    if (!session) {
+      return this.errorResponse(id, -32602, 'No chat history found for this session');
+    }
+    
+    // Summarize out-of-band so the request and the summary don't become part of the session
+    const result = await this.generateContent(this.chatModel(session), {
+      contents: [...session.history, { role: 'user', parts: [{ text: SUMMARY_REQUEST }] }] as Content[]
+    }, this.sessionContext(context, session));
+    
+    return {
+      jsonrpc: '2.0',
+      id,
+      result: {
+        content: [{
+          type: 'text',
+          text: this.responseText(result)
+        }]
+      }
+    };
+  }
+
+  private async updateChatSession(id: string | number, args: any, context: ToolContext): Promise<MCPResponse> {
+    const { sessionId = 'default', systemPrompt, model } = args;
+    context.claimSession?.(sessionId);
+
+    const session = await this.sessions.get(sessionId) || this.sessions.create(sessionId);
+    if (systemPrompt !== undefined) {
+      session.systemPrompt = systemPrompt;
+    }
+    if (model !== undefined) {
+      session.model = model;
+    }
+    session.generationConfig = {
+      ...session.generationConfig,
+      ...this.toGenerationConfig(args)
+    };
+    await this.sessions.save(session);
+
+    return this.structuredResponse(id, {
+      sessionId,
+      systemPrompt: session.systemPrompt,
+      model: session.model || DEFAULT_MODEL,
+      generationConfig: session.generationConfig
+    });
+  }
+
+  private async listChatSessions(id: string | number, args: any): Promise<MCPResponse> {
+    const sessions = [];
+    for (const sessionId of await this.sessions.ids()) {
+      const session = await this.sessions.peek(sessionId);
+      if (session) {
+        sessions.push({
+          sessionId,
+          model: session.model || DEFAULT_MODEL,
+          turns: countTurns(session.history),
+          createdAt: session.createdAt,
+          lastUsedAt: session.updatedAt,
+          estimatedTokens: estimateSessionTokens(session),
+          compacted: session.summary !== undefined
+        });
+      }
+    }
+    sessions.sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt));
+
+    return this.structuredResponse(id, { sessions }, JSON.stringify(sessions, null, 2));
+  }
+
+  private async forkChatSession(id: string | number, args: any, context: ToolContext): Promise<MCPResponse> {
+    const { sessionId = 'default', newSessionId = `${sessionId}-fork-${Date.now().toString(36)}` } = args;
+
+    const source = await this.sessions.get(sessionId);
+    if (!source) {
+      return this.errorResponse(id, -32602, `No chat history found for session: ${sessionId}`);
+    }
+    if (await this.sessions.get(newSessionId)) {
+      return this.errorResponse(id, -32602, `Session already exists: ${newSessionId}`);
+    }
+
+    const fork = this.sessions.create(newSessionId, {
+      systemPrompt: source.systemPrompt,
+      model: source.model,
+      generationConfig: structuredClone(source.generationConfig)
+    });
+    fork.history = structuredClone(source.history);
+    fork.summary = source.summary;
+    context.claimSession?.(newSessionId);
+    await this.sessions.save(fork);
+
+    return this.textResponse(id, `Forked session ${sessionId} into ${newSessionId} (${countTurns(fork.history)} turns)`);
+  }
+
+  private async rewindChatSession(id: string | number, args: any): Promise<MCPResponse> {
+    const { sessionId = 'default', turns = 1 } = args;
+
+    const session = await this.sessions.get(sessionId);
+    if (!session) {
+      return this.errorResponse(id, -32602, `No chat history found for session: ${sessionId}`);
+    }
+
+    const before = countTurns(session.history);
+    session.history = rewindHistory(session.history, turns);
+    await this.sessions.save(session);
+    const after = countTurns(session.history);
+
+    return this.textResponse(id, `Removed ${before - after} turn(s) from session ${sessionId}; ${after} remaining`);
+  }
+
+  private async exportChatSession(id: string | number, args: any, context: ToolContext): Promise<MCPResponse> {
+    const { sessionId = 'default', format = 'markdown', outputPath } = args;
+
+    const session = await this.sessions.get(sessionId);
+    if (!session) {
+      return this.errorResponse(id, -32602, `No chat history found for session: ${sessionId}`);
+    }
+
+    const transcript = formatTranscript(sessionId, session.history, format, session.summary);
+    if (!outputPath) {
+      return this.textResponse(id, transcript);
+    }
+
+    await fs.writeFile(await resolveWritePath(outputPath, context.files), transcript, 'utf-8');
+    return this.textResponse(id, `Exported session ${sessionId} to ${outputPath}`);
+  }
+
+  // Maps tool arguments onto Gemini generation config, leaving out unset values
+  private toGenerationConfig(args: any): SessionGenerationConfig {
+    const { temperature, maxTokens, topP, topK, stopSequences } = args;
+    const config: SessionGenerationConfig = { temperature, maxOutputTokens: maxTokens, topP, topK, stopSequences };
+    return Object.fromEntries(
+      Object.entries(config).filter(([, value]) => value !== undefined)
+    ) as SessionGenerationConfig;
+  }
+
+  private chatModel(session: ChatSessionRecord) {
+    return this.genAI.getGenerativeModel({
+      model: session.model || DEFAULT_MODEL,
+      systemInstruction: buildSystemInstruction(session),
+      generationConfig: session.generationConfig
+    });
+  }
+
+  /**
+   * Runs `turn` once the turns queued before it on the same session have
+   * finished. Each turn builds on the history the previous one saved, so
+   * concurrent messages to a session can't overwrite each other's turns.
+   */
+  private async inSessionTurn<T>(sessionId: string, turn: () => Promise<T>): Promise<T> {
+    const previous = this.sessionTurns.get(sessionId) ?? Promise.resolve();
+    const current = previous.catch(() => undefined).then(turn);
+    this.sessionTurns.set(sessionId, current);
+    try {
+      return await current;
+    } finally {
+      if (this.sessionTurns.get(sessionId) === current) {
+        this.sessionTurns.delete(sessionId);
+      }
+    }
+  }
+
+  // Sends a message on top of the session history and persists the updated history
+  private async sendChatMessage(
+    session: ChatSessionRecord,
+    message: string,
+    context: ToolContext,
+    streamText = false
+  ): Promise<GenerateContentResult> {
+    const { signal } = context;
+    const sessionContext = this.sessionContext(context, session);
+    await this.compactIfNeeded(session, sessionContext);
+    const model = this.chatModel(session);
+    await this.checkContextLimit(model, {
+      contents: [...session.history, { role: 'user', parts: [{ text: message }] }] as Content[]
+    }, context);
+    const chat = model.startChat({ history: session.history as Content[] });
+
+    // The SDK only adds the turn to the chat history once a call succeeds, so retrying is safe
+    const result = this.trackUsage(this.shouldStream(context, streamText)
+      ? await this.collectStream(await this.retry(() => chat.sendMessageStream(message, { signal }), signal, model), context, streamText)
+      : await this.retry(() => chat.sendMessage(message, { signal }), signal, model), sessionContext, model);
+    session.history = await chat.getHistory() as ChatMessage[];
+    await this.sessions.save(session);
+
+    return result;
+  }
+
+  // With the response cache on, tools that work on given input (explain, convert, translate, summarize,
+  // moderate) answer at temperature 0, so repeated calls get the same answer and can be served from it
+  private get inputBoundTemperature(): number | undefined {
+    return this.options.cache ? 0 : undefined;
+  }
+
+  // Streaming is needed to report progress or to send partial text
+  private shouldStream(context: ToolContext, streamText: boolean): boolean {
+    return Boolean(context.reportProgress || (streamText && context.sendPartialText));
+  }
+
+  /**
+   * Answers from the response cache when it is enabled and the call is
+   * deterministic, i.e. its temperature is 0, or `forceCache` is set. The
+   * request's temperature takes precedence over the model's; an unset one
+   * means Gemini's default, which is above 0. Otherwise calls Gemini and
+   * caches complete answers.
+   */
+  private async generateContent(
+    model: GenerativeModel,
+    request: GenerateContentRequest,
+    context: ToolContext,
+    streamText = false,
+    forceCache = false
+  ): Promise<GenerateContentResult> {
+    const cache = this.options.cache;
+    if (!cache) {
+      return this.fetchContent(model, request, context, streamText);
+    }
+    const temperature = request.generationConfig?.temperature ?? model.generationConfig?.temperature;
+    if (temperature !== 0 && !(forceCache || cache.force)) {
+      context.reportCache?.('bypass');
+      return this.fetchContent(model, request, context, streamText);
+    }
+
+    const key = cacheKey(model, request);
+    const cached = await cache.store.get(key).catch(error => {
+      console.error('Response cache read failed:', error instanceof Error ? error.message : error);
+      return undefined;
+    });
+    if (cached) {
+      context.reportCache?.('hit');
+      const response = fromCachedResponse(cached);
+      if (this.shouldStream(context, streamText)) {
+        context.sendPartialText?.(response.text());
+      }
+      return { response };
+    }
+
+    context.reportCache?.('miss');
+    const result = await this.fetchContent(model, request, context, streamText);
+    if (isCacheable(result.response)) {
+      await cache.store.set(key, toCachedResponse(result.response)).catch(error => {
+        console.error('Response cache write failed:', error instanceof Error ? error.message : error);
+      });
+    }
+    return result;
+  }
+
+  // Streams the response when the client asked for progress or partial text, so it can follow along chunk by chunk
+  private async fetchContent(
+    model: GenerativeModel,
+    request: GenerateContentRequest,
+    context: ToolContext,
+    streamText: boolean
+  ): Promise<GenerateContentResult> {
+    const { signal } = context;
+    await this.checkContextLimit(model, request, context);
+    if (!this.shouldStream(context, streamText)) {
+      return this.trackUsage(await this.retry(() => model.generateContent(request, { signal }), signal, model), context, model);
+    }
+    // Only opening the stream is retried; chunks already sent can't be taken back
+    const stream = await this.retry(() => model.generateContentStream(request, { signal }), signal, model);
+    return this.trackUsage(await this.collectStream(stream, context, streamText), context, model);
+  }
+
+  /**
+   * Makes sure the prompt plus maxOutputTokens fits the model's context
+   * window before it is sent. Prompts that are clearly small enough are
+   * judged by a local estimate; the rest are counted with countTokens.
+   */
+  private async checkContextLimit(model: GenerativeModel, request: GenerateContentRequest, context: ToolContext): Promise<void> {
+    const guard = this.options.contextGuard || {};
+    if (guard.mode === 'off') {
+      return;
+    }
+    const contextWindow = contextWindowFor(model.model, guard);
+    const maxOutputTokens = request.generationConfig?.maxOutputTokens ?? model.generationConfig?.maxOutputTokens ?? 0;
+    const contents = model.systemInstruction ? [model.systemInstruction, ...request.contents] : request.contents;
+    if (estimateTokens(contents as ChatMessage[]) * ESTIMATE_MARGIN + maxOutputTokens <= contextWindow) {
+      return;
+    }
+
+    const { signal } = context;
+    const { totalTokens } = await this.retry(
+      () => model.countTokens({ generateContentRequest: request }, { signal }),
+      signal,
+      model,
+      'count_tokens'
+    );
+    if (totalTokens + maxOutputTokens <= contextWindow) {
+      return;
+    }
+    const error = contextLimitError(model.model, totalTokens, maxOutputTokens, contextWindow);
+    if (guard.mode !== 'warn') {
+      throw error;
+    }
+    context.warn?.('context-limit', { message: error.message, ...error.data });
+  }
+
+  private trackUsage(result: GenerateContentResult, context: ToolContext, model: GenerativeModel): GenerateContentResult {
+    const usage = toTokenUsage(result.response.usageMetadata);
+    if (usage) {
+      context.reportUsage?.(usage, { model: model.model });
+    }
+    return result;
+  }
+
+  // Attributes the tokens of calls made on behalf of a chat session to that session
+  private sessionContext(context: ToolContext, session: ChatSessionRecord): ToolContext {
+    const { reportUsage } = context;
+    return {
+      ...context,
+      reportUsage: reportUsage && ((usage, source) => reportUsage(usage, { ...source, sessionId: session.id }))
+    };
+  }
+
+  // Emits a 'usage' event and adds the call to the ledger; returns its estimated cost
+  private recordUsage(usage: TokenUsage, source: UsageSource & { tool: string }, target: NotificationTarget): number {
+    this.emit('usage', usage, target);
+    return this.usageLedger.record({ ...source, usage, clientId: target.protocol.clientInfo?.name ?? 'unknown' });
+  }
+
+  // Throws a GeminiError when the output was blocked, and notes when it was cut off at the token limit
+  private responseText(result: GenerateContentResult): string {
+    const { text, truncated } = readResponseText(result.response);
+    return truncated ? `${text}\n\n${TRUNCATION_NOTICE}` : text;
+  }
+
+  private retry<T>(
+    call: () => Promise<T>,
+    signal: AbortSignal,
+    model: GenerativeModel,
+    operation: GeminiCallTiming['operation'] = 'generate'
+  ): Promise<T> {
+    return withRetry(() => this.timeGeminiCall(call, model, operation), signal, this.options.retry);
+  }
+
+  private async timeGeminiCall<T>(call: () => Promise<T>, model: GenerativeModel, operation: GeminiCallTiming['operation']): Promise<T> {
+    const startedAt = Date.now();
+    let ok = false;
+    try {
+      const result = await call();
+      ok = true;
+      return result;
+    } finally {
+      const timing: GeminiCallTiming = { model: model.model, operation, durationMs: Date.now() - startedAt, ok };
+      this.emit('gemini', timing);
+    }
+  }
+
+  // Drains a response stream, reporting chunk and token counts and optionally
+  // forwarding partial text, and returns the aggregated response
+  private async collectStream(
+    result: GenerateContentStreamResult,
+    context: ToolContext,
+    streamText: boolean
+  ): Promise<GenerateContentResult> {
+    let chunks = 0;
+    let characters = 0;
+    for await (const chunk of result.stream) {
+      // Stop at the next chunk boundary even if the SDK has already buffered more
+      context.signal.throwIfAborted();
+      chunks++;
+      const text = chunk.candidates?.[0]?.content?.parts?.map(part => part.text || '').join('') || '';
+      characters += text.length;
+      if (streamText && text) {
+        context.sendPartialText?.(text);
+      }
+      // Usage is only reported on some chunks; estimate from the text until it arrives
+      const tokens = chunk.usageMetadata?.candidatesTokenCount ?? Math.ceil(characters / 4);
+      context.reportProgress?.(chunks, undefined, `Received ${chunks} chunk(s), ${tokens} tokens`);
+    }
+    return { response: await result.response };
+  }
+
+  // Folds older turns into the rolling summary once the session outgrows the configured threshold
+  private async compactIfNeeded(session: ChatSessionRecord, context: ToolContext): Promise<void> {
+    const { signal } = context;
+    const compaction = this.options.compaction;
+    if (!compaction || estimateSessionTokens(session) <= compaction.thresholdTokens) {
+      return;
+    }
+
+    const { older, recent } = splitForCompaction(session.history, compaction.keepTurns ?? DEFAULT_KEEP_TURNS);
+    if (older.length === 0) {
+      return;
+    }
+
+    const model = this.chatModel(session);
+    const result = this.trackUsage(await this.retry(() => model.generateContent({
+      contents: [...older, { role: 'user', parts: [{ text: COMPACTION_REQUEST }] }] as Content[]
+    }, { signal }), signal, model), context, model);
+    session.summary = readResponseText(result.response).text;
+    session.history = recent;
+  }
+
+  // Content Creation Methods
+  private async translateText(id: string | number, args: any, context: ToolContext): Promise<MCPResponse> {
+    const { text, targetLanguage, sourceLanguage } = args;
+    
+    const fullPrompt = `Translate the following text${sourceLanguage ? ` from ${sourceLanguage}` : ''} to ${targetLanguage}. Provide only the translation without any additional explanation:\n\n${text}`;
+    
+    return this.generateText(id, { prompt: fullPrompt, temperature: this.inputBoundTemperature }, context);
+  }
+
+  private async summarizeText(id: string | number, args: any, context: ToolContext): Promise<MCPResponse> {
+    const { text, style = 'brief', maxLength } = args;
+    
+    const styleInstructions: { [key: string]: string } = {
+      'brief': 'Provide a brief summary in 2-3 sentences',
+      'detailed': 'Provide a detailed summary covering all main points',
+      'bullet-points': 'Provide a summary using bullet points',
+      'executive': 'Provide an executive summary suitable for business readers'
+    };
+    
+    const lengthInstruction = maxLength ? ` in no more than ${maxLength} words` : '';
+    const chunks = splitIntoChunks(text, SUMMARY_CHUNK_CHARS);
+    if (chunks.length === 1) {
+      const fullPrompt = `${styleInstructions[style]}${lengthInstruction} of the following text:\n\n${text}`;
+      return this.generateText(id, { prompt: fullPrompt, temperature: this.inputBoundTemperature }, context);
+    }
+
+    // Summarize each chunk, then summarize the summaries in the requested style
+    const totalSteps = chunks.length + 1;
+    // Progress is reported per step here, so the steps only pass on usage, cache status and warnings
+    const stepContext: ToolContext = { ...context, reportProgress: undefined, sendPartialText: undefined };
+    const partials: string[] = [];
+    for (const [index, chunk] of chunks.entries()) {
+      context.reportProgress?.(index, totalSteps, `Summarizing part ${index + 1} of ${chunks.length}`);
+      const partial = await this.generateText(id, {
+        prompt: `Provide a detailed summary covering all main points of the following text (part ${index + 1} of ${chunks.length}):\n\n${chunk}`,
+        temperature: this.inputBoundTemperature
+      }, stepContext);
+      if (partial.error) {
+        return partial;
+      }
+      partials.push(partial.result.content[0].text);
+    }
+
+    context.reportProgress?.(chunks.length, totalSteps, 'Combining summaries');
+    const fullPrompt = `${styleInstructions[style]}${lengthInstruction} of the following text, which consists of summaries of consecutive parts of a longer document:\n\n${partials.join('\n\n')}`;
+    const result = await this.generateText(id, { prompt: fullPrompt, temperature: this.inputBoundTemperature }, stepContext);
+    context.reportProgress?.(totalSteps, totalSteps, 'Summary complete');
+    return result;
+  }
+
+  private async rewriteText(id: string | number, args: any, context: ToolContext): Promise<MCPResponse> {
+    const { text, style, targetAudience } = args;
+    
+    const audienceInstruction = targetAudience ? ` for ${targetAudience}` : '';
+    const fullPrompt = `Rewrite the following text in a ${style} style${audienceInstruction}:\n\n${text}`;
+    
+    return this.generateText(id, { prompt: fullPrompt }, context);
+  }
+
+  private async generateStructuredData(id: string | number, args: any, context: ToolContext): Promise<MCPResponse> {
+    const { prompt, format = 'json', schema } = args;
+    
+    const schemaInstruction = schema ? `\n\nFollow this schema:\n${JSON.stringify(schema, null, 2)}` : '';
+    const fullPrompt = `Generate ${format.toUpperCase()} data for: ${prompt}${schemaInstruction}\n\nProvide only the ${format} data without any markdown code blocks or additional explanation.`;
+    
+    const result = await this.generateText(id, { prompt: fullPrompt }, context);
+    
+    // Try to validate JSON if format is JSON
+    if (format === 'json' && result.result) {
+      try {
+        const text = result.result.content[0].text;
+        JSON.parse(text); // Validate JSON
+      } catch (e) {
+        // If validation fails, wrap in code block
+        result.result.content[0].text = `\`\`\`json\n${result.result.content[0].text}\n\`\`\``;
+      }
+    }
+    
+    return result;
+  }
+
+  // Safety & Moderation Methods
+  private async checkContentSafety(id: string | number, args: any, context: ToolContext): Promise<MCPResponse> {
+    const { content, categories = ['harassment', 'hate', 'sexual', 'dangerous'] } = args;
+    
+    const fullPrompt = `Analyze the following content for safety issues in these categories: ${categories.join(', ')}. 
+    
+Content: "${content}"
+
+Provide a safety assessment with:
+1. Overall safety rating (safe/caution/unsafe)
+2. Specific concerns for each category
+3. Recommendations if any issues are found
+
+Format as JSON.`;
+    
+    return this.generateText(id, { prompt: fullPrompt, temperature: this.inputBoundTemperature }, context);
+  }
+
+  private async moderateText(id: string | number, args: any, context: ToolContext): Promise<MCPResponse> {
+    const { text, level = 'moderate' } = args;
+    
+    const levelInstructions: { [key: string]: string } = {
+      'strict': 'Remove or modify any potentially inappropriate content',
+      'moderate': 'Clean up obviously inappropriate content while preserving meaning',
+      'lenient': 'Only remove explicit inappropriate content'
+    };
+    
+    const fullPrompt = `${levelInstructions[level]} in the following text. Return the cleaned version:\n\n${text}`;
+    
+    return this.generateText(id, { prompt: fullPrompt, temperature: this.inputBoundTemperature }, context);
+  }
+
+  // Response Cache Methods
+  private async clearCache(id: string | number): Promise<MCPResponse> {
+    if (!this.options.cache) {
+      return this.textResponse(id, 'The response cache is not enabled');
+    }
+    const cleared = await this.options.cache.store.clear();
+    return this.textResponse(id, `Removed ${cleared} cached response(s)`);
+  }
+
+  // Token Counting Methods
+  private async countTokens(id: string | number, args: any, context: ToolContext): Promise<MCPResponse> {
+    const { text, code, images = [], sessionId } = args;
+
+    const parts: Part[] = [];
+    if (text) {
+      parts.push({ text });
+    }
+    if (code) {
+      parts.push({ text: code });
+    }
+    parts.push(...await Promise.all(images.map((img: any) => this.loadImagePart(img, context))));
+
+    let model: GenerativeModel;
+    let contents: Content[];
+    if (sessionId) {
+      const session = await this.sessions.get(sessionId);
+      if (!session) {
+        return this.errorResponse(id, -32602, `No chat history found for session: ${sessionId}`);
+      }
+      model = this.chatModel(session);
+      contents = [...session.history as Content[], ...(parts.length > 0 ? [{ role: 'user', parts }] : [])];
+    } else {
+      if (parts.length === 0) {
+        return this.errorResponse(id, -32602, 'Nothing to count: pass text, code, images or a sessionId');
+      }
+      model = args.model ? this.genAI.getGenerativeModel({ model: args.model }) : this.model;
+      contents = [{ role: 'user', parts }];
+    }
+
+    const { signal } = context;
+    const { totalTokens } = await this.retry(
+      () => model.countTokens({ generateContentRequest: { contents } }, { signal }),
+      signal,
+      model,
+      'count_tokens'
+    );
+    const contextWindow = contextWindowFor(model.model, this.options.contextGuard);
+    const counts = {
+      model: model.model.replace(/^models\//, ''),
+      totalTokens,
+      contextWindow,
+      remainingTokens: Math.max(0, contextWindow - totalTokens)
+    };
+
+    return this.structuredResponse(id, counts, `${totalTokens} tokens of the ${contextWindow}-token context window of ${counts.model}`);
+  }
+
+  // Usage Methods
+  private async getUsageReport(id: string | number, args: any): Promise<MCPResponse> {
+    const { date } = args;
+    if (date === undefined) {
+      return this.structuredResponse(id, { ...await this.usageLedger.report() });
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return this.errorResponse(id, -32602, `Invalid date: ${date}. Use YYYY-MM-DD`);
+    }
+    const usage = await this.usageLedger.forDate(date);
+    if (!usage) {
+      return this.errorResponse(id, -32602, `No usage recorded for ${date}`);
+    }
+    return this.structuredResponse(id, { date, ...usage });
+  }
+
+  // Helper Methods
+  private getMimeType(filePath: string): string {
+    const ext = filePath.toLowerCase().split('.').pop();
+    const mimeTypes: { [key: string]: string } = {
+      'jpg': 'image/jpeg',
+      'jpeg': 'image/jpeg',
+      'png': 'image/png',
+      'gif': 'image/gif',
+      'webp': 'image/webp'
+    };
+    return mimeTypes[ext || ''] || 'image/jpeg';
+  }
+
+  private sendNotification(method: string, params: any, target?: NotificationTarget): void {
+    const notification: NotificationMessage = { jsonrpc: '2.0', method, params };
+    this.emit('notification', notification, target);
+  }
+
+  // Each client gets log messages at or above the level it set
+  private log(level: string, logger: string, data: any, target: NotificationTarget): void {
+    if (LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(target.protocol.logLevel)) {
+      this.sendNotification('notifications/message', { level, logger, data }, target);
+    }
+  }
+
+  private textResponse(id: string | number, text: string): MCPResponse {
+    return {
+      jsonrpc: '2.0',
+      id,
+      result: {
+        content: [{
+          type: 'text',
+          text
+        }]
+      }
+    };
+  }
+
+  // The text block carries the same data for clients without structuredContent support
+  private structuredResponse(id: string | number, data: Record<string, any>, text: string = JSON.stringify(data, null, 2)): MCPResponse {
+    const response = this.textResponse(id, text);
+    response.result.structuredContent = data;
+    return response;
+  }
+
+  private errorResponse(id: string | number, code: number, message: string, data?: any): MCPResponse {
+    return {
+      jsonrpc: '2.0',
+      id,
+      error: {
+        code,
+        message,
+        ...(data !== undefined && { data })
+      }
+    };
+  }
+}
@@ -0,0 +1,169 @@
+import {
+  GenerateContentResponse,
+  GoogleGenerativeAIAbortError,
+  GoogleGenerativeAIError,
+  GoogleGenerativeAIFetchError,
+  GoogleGenerativeAIRequestInputError,
+  GoogleGenerativeAIResponseError
+} from '@google/generative-ai';
+import { ERROR_CODES } from '../protocol.js';
+import { blockedResponseError } from './response.js';
+
+export type GeminiErrorKind =
+  | 'rate_limit'
+  | 'quota'
+  | 'auth'
+  | 'safety'
+  | 'invalid_argument'
+  | 'context_limit'
+  | 'transient'
+  | 'unknown';
+
+/**
+ * Sent as `error.data` so clients can tell failures apart without parsing messages.
+ */
+export interface GeminiErrorData {
+  kind: GeminiErrorKind;
+  // HTTP status of the Gemini API response, when there was one
+  status?: number;
+  // How long the API asked us to wait before trying again
+  retryAfterMs?: number;
+  // Attempts made before giving up, including the first
+  attempts?: number;
+  blockReason?: string;
+  finishReason?: string;
+  // Safety categories that caused a block
+  categories?: string[];
+  // google.rpc error details from the API response
+  details?: unknown[];
+  // Prompt size, output allowance and model limit of a call that would not fit
+  inputTokens?: number;
+  maxOutputTokens?: number;
+  contextWindow?: number;
+}
+
+const KIND_CODES: Record<GeminiErrorKind, number> = {
+  rate_limit: ERROR_CODES.GEMINI_RATE_LIMIT,
+  quota: ERROR_CODES.GEMINI_RATE_LIMIT,
+  auth: ERROR_CODES.GEMINI_INVALID_TOKEN,
+  safety: ERROR_CODES.GEMINI_CONTENT_FILTER,
+  invalid_argument: ERROR_CODES.GEMINI_API_ERROR,
+  context_limit: ERROR_CODES.GEMINI_CONTEXT_LIMIT,
+  transient: ERROR_CODES.GEMINI_API_ERROR,
+  unknown: ERROR_CODES.GEMINI_API_ERROR
+};
+
+/**
+ * A classified Gemini SDK failure, carrying the JSON-RPC error code and
+ * data it should be reported with.
+ */
+export class GeminiError extends Error {
+  readonly code: number;
+
+  constructor(message: string, public data: GeminiErrorData, public cause?: unknown) {
+    super(message);
+    this.name = 'GeminiError';
+    this.code = KIND_CODES[data.kind];
+  }
+
+  get kind(): GeminiErrorKind {
+    return this.data.kind;
+  }
+
+  // Worth trying again after a pause
+  get retryable(): boolean {
+    return this.kind === 'transient' || this.kind === 'rate_limit';
+  }
+}
+
+const TRANSIENT_STATUSES = [500, 502, 503, 504];
+
+// Per-minute limits clear up on their own; per-day limits and billing problems don't
+const DAILY_QUOTA = /per ?day/i;
+
+interface RpcErrorDetail {
+  '@type'?: string;
+  retryDelay?: string;
+  reason?: string;
+  violations?: { quotaId?: string }[];
+}
+
+/**
+ * Classifies an error thrown by the Gemini SDK, or while reading one of its
+ * responses. Returns undefined for errors that did not come from Gemini,
+ * including cancellations, which callers should rethrow as they are.
+ */
+export function toGeminiError(error: unknown): GeminiError | undefined {
+  if (error instanceof GeminiError) {
+    return error;
+  }
+  if (!(error instanceof GoogleGenerativeAIError) || error instanceof GoogleGenerativeAIAbortError) {
+    return undefined;
+  }
+  const message = error.message.replace(/^\[GoogleGenerativeAI Error\]: /, '');
+
+  if (error instanceof GoogleGenerativeAIFetchError) {
+    const data = classifyFetchError(error);
+    return new GeminiError(describeFetchError(error, data.kind), data, error);
+  }
+  if (error instanceof GoogleGenerativeAIResponseError) {
+    const blocked = blockedResponseError(error.response as GenerateContentResponse | undefined);
+    return new GeminiError(blocked.message, blocked.data, error);
+  }
+  if (error instanceof GoogleGenerativeAIRequestInputError) {
+    return new GeminiError(message, { kind: 'invalid_argument' }, error);
+  }
+  // The SDK wraps network failures such as resets and DNS errors this way
+  if (message.startsWith('Error fetching from')) {
+    return new GeminiError(`Could not reach the Gemini API: ${message}`, { kind: 'transient' }, error);
+  }
+  return new GeminiError(message, { kind: 'unknown' }, error);
+}
+
+function classifyFetchError(error: GoogleGenerativeAIFetchError): GeminiErrorData {
+  const status = error.status;
+  const details = (error.errorDetails || []) as RpcErrorDetail[];
+  const data = { status, ...(details.length > 0 && { details }) };
+  const reasons = details.map(detail => detail.reason).filter(Boolean);
+
+  // An invalid key comes back as a 400 rather than a 401
+  if (status === 401 || status === 403 || reasons.includes('API_KEY_INVALID')) {
+    return { kind: 'auth', ...data };
+  }
+  if (status === 429) {
+    const quotaIds = details.flatMap(detail => detail.violations || []).map(violation => violation.quotaId || '');
+    if (quotaIds.some(quotaId => DAILY_QUOTA.test(quotaId))) {
+      return { kind: 'quota', ...data, retryAfterMs: retryAfterMs(details, error.message) };
+    }
+    return { kind: 'rate_limit', ...data, retryAfterMs: retryAfterMs(details, error.message) };
+  }
+  if (status !== undefined && TRANSIENT_STATUSES.includes(status)) {
+    return { kind: 'transient', ...data, retryAfterMs: retryAfterMs(details, error.message) };
+  }
+  if (status === 400 || status === 404) {
+    return { kind: 'invalid_argument', ...data };
+  }
+  return { kind: 'unknown', ...data };
+}
+
+// From a google.rpc.RetryInfo detail ("30s"), or failing that the "Please retry in 30.5s" message
+function retryAfterMs(details: RpcErrorDetail[], message: string): number | undefined {
+  const delay = details.find(detail => detail['@type']?.endsWith('google.rpc.RetryInfo'))?.retryDelay
+    ?? message.match(/retry in ([\d.]+)s/i)?.[1];
+  const seconds = parseFloat(delay || '');
+  return seconds >= 0 ? Math.ceil(seconds * 1000) : undefined;
+}
+
+const FETCH_ERROR_SUMMARIES: Partial<Record<GeminiErrorKind, string>> = {
+  auth: 'Gemini rejected the API key',
+  rate_limit: 'Gemini rate limit exceeded',
+  quota: 'Gemini quota exhausted'
+};
+
+// Leaves out the request URL and the raw details, which are in error.data
+function describeFetchError(error: GoogleGenerativeAIFetchError, kind: GeminiErrorKind): string {
+  const details = error.errorDetails ? ` ${JSON.stringify(error.errorDetails)}` : '';
+  const apiMessage = (error.message.match(/\] (.*)$/s)?.[1] || '').replace(details, '').trim();
+  const summary = FETCH_ERROR_SUMMARIES[kind] ?? `Gemini API error ${error.status}`;
+  return apiMessage ? `${summary}: ${apiMessage}` : summary;
+}
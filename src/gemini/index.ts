@@ -0,0 +1,5 @@
+export * from './errors.js';
+export * from './retry.js';
+export * from './response.js';
+export * from './usage.js';
+export * from './limits.js';
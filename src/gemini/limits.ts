@@ -0,0 +1,41 @@
+import { GeminiError } from './errors.js';
+
+// Input token limits by model family, longest prefix first
+const CONTEXT_WINDOWS: [string, number][] = [
+  ['gemini-1.5-flash', 1048576],
+  ['gemini-1.5-pro', 2097152],
+  ['gemini-1.0-pro', 30720],
+  ['gemini-2.0', 1048576],
+  ['gemini-2.5', 1048576]
+];
+
+// For models missing from the table; GEMINI_CONTEXT_WINDOW overrides it
+export const DEFAULT_CONTEXT_WINDOW = 1048576;
+
+export type ContextGuardMode = 'reject' | 'warn' | 'off';
+
+export interface ContextGuardOptions {
+  // What to do when a call would not fit; defaults to 'reject'
+  mode?: ContextGuardMode;
+  // Overrides the context window of every model
+  contextWindow?: number;
+}
+
+export function contextWindowFor(model: string, options: ContextGuardOptions = {}): number {
+  if (options.contextWindow) {
+    return options.contextWindow;
+  }
+  const name = model.replace(/^models\//, '');
+  return CONTEXT_WINDOWS.find(([prefix]) => name.startsWith(prefix))?.[1] ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Describes a call whose prompt plus output allowance is larger than the
+ * model's context window.
+ */
+export function contextLimitError(model: string, inputTokens: number, maxOutputTokens: number, contextWindow: number): GeminiError {
+  return new GeminiError(
+    `Prompt of ${inputTokens} tokens plus up to ${maxOutputTokens} output tokens exceeds the ${contextWindow}-token context window of ${model}`,
+    { kind: 'context_limit', inputTokens, maxOutputTokens, contextWindow }
+  );
+}
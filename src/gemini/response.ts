@@ -0,0 +1,66 @@
+import { EnhancedGenerateContentResponse, GenerateContentResponse, SafetyRating } from '@google/generative-ai';
+import { GeminiError } from './errors.js';
+
+// Finish reasons for which Gemini withholds some or all of the output
+const BLOCKING_FINISH_REASONS = ['SAFETY', 'RECITATION', 'LANGUAGE', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII'];
+
+const FLAGGED_PROBABILITIES = ['MEDIUM', 'HIGH'];
+
+export const TRUNCATION_NOTICE = '[Output truncated: the response reached the maximum output token limit]';
+
+export interface ResponseText {
+  text: string;
+  finishReason?: string;
+  // Generation hit maxOutputTokens, so the text stops mid-way
+  truncated: boolean;
+}
+
+/**
+ * Reads the text of a Gemini response after checking why generation
+ * stopped. Throws a GeminiError of kind 'safety' when the prompt or the
+ * output was blocked.
+ */
+export function readResponseText(response: EnhancedGenerateContentResponse): ResponseText {
+  const blockReason = response.promptFeedback?.blockReason;
+  const candidate = response.candidates?.[0];
+  const finishReason = candidate?.finishReason;
+  if (blockReason || (finishReason && BLOCKING_FINISH_REASONS.includes(finishReason))) {
+    throw blockedResponseError(response);
+  }
+
+  return {
+    text: response.text(),
+    finishReason,
+    truncated: finishReason === 'MAX_TOKENS'
+  };
+}
+
+/**
+ * Describes a blocked prompt or response, naming the safety categories
+ * that were flagged.
+ */
+export function blockedResponseError(response: GenerateContentResponse | undefined): GeminiError {
+  const blockReason = response?.promptFeedback?.blockReason;
+  const candidate = response?.candidates?.[0];
+  const finishReason = blockReason ? undefined : candidate?.finishReason;
+  const categories = flaggedCategories(blockReason ? response?.promptFeedback?.safetyRatings : candidate?.safetyRatings);
+
+  const what = blockReason ? 'prompt' : 'response';
+  const reason = blockReason || finishReason;
+  const details = response?.promptFeedback?.blockReasonMessage || candidate?.finishMessage;
+  const message = `Gemini blocked the ${what}` +
+    (reason ? ` (${reason})` : '') +
+    (categories.length > 0 ? `: ${categories.join(', ')}` : '') +
+    (details ? `. ${details}` : '');
+
+  return new GeminiError(message, { kind: 'safety', blockReason, finishReason, categories });
+}
+
+// Ratings the API marked as blocking, or failing that those rated medium or high
+function flaggedCategories(ratings: SafetyRating[] | undefined): string[] {
+  const blocked = (ratings || []).filter(rating => (rating as SafetyRating & { blocked?: boolean }).blocked);
+  const flagged = blocked.length > 0
+    ? blocked
+    : (ratings || []).filter(rating => FLAGGED_PROBABILITIES.includes(rating.probability));
+  return flagged.map(rating => rating.category);
+}
@@ -0,0 +1,67 @@
+import { GeminiError, toGeminiError } from './errors.js';
+
+export interface RetryOptions {
+  // Retries after the first attempt; 0 turns retrying off
+  maxRetries?: number;
+  // Upper bound of the first backoff; each retry doubles it
+  baseDelayMs?: number;
+  // Longest we wait between attempts, also for retry-after hints
+  maxDelayMs?: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 20000
+};
+
+/**
+ * Runs a Gemini call, retrying rate limits and transient failures with
+ * full-jitter exponential backoff, or after the delay the API asked for.
+ * Failures from Gemini are rethrown as GeminiError with the number of
+ * attempts in `data`; anything else, cancellation included, is rethrown as
+ * it is.
+ */
+export async function withRetry<T>(
+  call: () => Promise<T>,
+  signal?: AbortSignal,
+  options: RetryOptions = {},
+  random: () => number = Math.random
+): Promise<T> {
+  const maxRetries = options.maxRetries ?? DEFAULT_RETRY_OPTIONS.maxRetries;
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_RETRY_OPTIONS.baseDelayMs;
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_RETRY_OPTIONS.maxDelayMs;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await call();
+    } catch (error) {
+      const geminiError = toGeminiError(error);
+      if (!geminiError || signal?.aborted) {
+        throw error;
+      }
+
+      const retryAfterMs = geminiError.data.retryAfterMs;
+      const delayMs = retryAfterMs ?? random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+      // Waiting longer than maxDelayMs would hold the request open for too long
+      if (!geminiError.retryable || attempt > maxRetries || delayMs > maxDelayMs) {
+        throw new GeminiError(geminiError.message, { ...geminiError.data, attempts: attempt }, geminiError.cause);
+      }
+      await sleep(delayMs, signal);
+    }
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
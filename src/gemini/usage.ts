@@ -0,0 +1,18 @@
+import { UsageMetadata } from '@google/generative-ai';
+
+/**
+ * Tokens spent on a single Gemini call.
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens?: number;
+  totalTokens: number;
+}
+
+export function toTokenUsage(usageMetadata: UsageMetadata | undefined): TokenUsage | undefined {
+  return usageMetadata && {
+    promptTokens: usageMetadata.promptTokenCount,
+    completionTokens: usageMetadata.candidatesTokenCount,
+    totalTokens: usageMetadata.totalTokenCount
+  };
+}
@@ -10,18 +10,35 @@ import {
   ConfigureRequest
 } from './types.js';
 import { ERROR_CODES, ProtocolManager } from './protocol.js';
+import { RetryOptions, readResponseText, toGeminiError, toTokenUsage, withRetry } from './gemini/index.js';
 import EventEmitter from 'events';
 
+/**
+ * Handles the legacy generate/stream/cancel/configure methods. Request ids
+ * are only unique per client, so every call names the client it belongs to;
+ * callers with a single client can rely on the default.
+ */
 export class MCPHandlers extends EventEmitter {
-  private activeRequests: Map<string | number, AbortController>;
+  // Abort controllers of running requests, per client and request id
+  private activeRequests: WeakMap<object, Map<string | number, AbortController>>;
 
   constructor(
     private model: GenerativeModel, 
     private protocol: any,
-    private debug: boolean = false
+    private debug: boolean = false,
+    private retryOptions: RetryOptions = {}
   ) {
     super();
-    this.activeRequests = new Map();
+    this.activeRequests = new WeakMap();
+  }
+
+  private requestsOf(client: object): Map<string | number, AbortController> {
+    let requests = this.activeRequests.get(client);
+    if (!requests) {
+      requests = new Map();
+      this.activeRequests.set(client, requests);
+    }
+    return requests;
   }
 
   private log(...args: any[]) {
@@ -51,7 +68,7 @@ export class MCPHandlers extends EventEmitter {
     };
   }
 
-  async handleGenerate(request: GenerateRequest): Promise<GenerateResponse> {
+  async handleGenerate(request: GenerateRequest, client: object = this): Promise<GenerateResponse> {
     this.log('Handling generate request:', request.params);
     
     if (!this.validateRequest(request, ['prompt'])) {
@@ -59,10 +76,11 @@ export class MCPHandlers extends EventEmitter {
     }
 
     const abortController = new AbortController();
-    this.activeRequests.set(request.id, abortController);
+    const requests = this.requestsOf(client);
+    requests.set(request.id, abortController);
 
     try {
-      const result = await this.model.generateContent({
+      const result = await withRetry(() => this.model.generateContent({
         contents: [{
           role: 'user',
           parts: [{
@@ -74,45 +92,58 @@ export class MCPHandlers extends EventEmitter {
           maxOutputTokens: request.params.maxTokens,
           stopSequences: request.params.stopSequences,
         }
-      });
-      const response = await result.response;
+      }, { signal: abortController.signal }), abortController.signal, this.retryOptions);
+      const { text, finishReason, truncated } = readResponseText(result.response);
 
-      this.activeRequests.delete(request.id);
+      requests.delete(request.id);
 
       return {
         jsonrpc: '2.0',
         id: request.id,
         result: {
           type: 'completion',
-          content: response.text(),
+          content: text,
           metadata: {
-            model: 'gemini-pro',
+            model: this.model.model,
             provider: 'google',
             temperature: request.params.temperature,
             maxTokens: request.params.maxTokens,
             stopSequences: request.params.stopSequences,
+            finishReason,
+            truncated,
+            usage: toTokenUsage(result.response.usageMetadata)
           }
         }
       };
     } catch (error) {
       this.log('Generation error:', error);
-      this.activeRequests.delete(request.id);
+      requests.delete(request.id);
       throw error;
     }
   }
 
-  async handleStream(request: StreamRequest): Promise<void> {
+  /**
+   * Streams a completion as 'response' events: one frame per chunk, then a
+   * final `done: true` frame carrying usage metadata. A cancelled stream
+   * ends without a final frame. Every frame is emitted with `client`, so
+   * streams of different clients that share an id stay apart.
+   */
+  async handleStream(
+    request: StreamRequest,
+    abortController: AbortController = new AbortController(),
+    client: object = this
+  ): Promise<void> {
     this.log('Handling stream request:', request.params);
     
     if (!this.validateRequest(request, ['prompt'])) {
       throw this.createError(ERROR_CODES.INVALID_PARAMS, 'Invalid or missing parameters');
     }
 
-    const abortController = new AbortController();
-    this.activeRequests.set(request.id, abortController);
+    const requests = this.requestsOf(client);
+    requests.set(request.id, abortController);
 
     try {
-      const stream = await this.model.generateContentStream({
+      const stream = await withRetry(() => this.model.generateContentStream({
         contents: [{
           role: 'user',
           parts: [{
@@ -124,19 +155,31 @@ export class MCPHandlers extends EventEmitter {
           maxOutputTokens: request.params.maxTokens,
           stopSequences: request.params.stopSequences,
         }
-      });
+      }, { signal: abortController.signal }), abortController.signal, this.retryOptions);
 
       for await (const chunk of stream.stream) {
+        // Nothing more is sent for a cancelled stream
+        if (abortController.signal.aborted) {
+          return;
+        }
         const response: StreamResponse = {
           jsonrpc: '2.0',
           id: request.id,
           result: {
             type: 'stream',
-            content: chunk.text(),
+            // Throws if Gemini blocked this part of the output, which ends the stream with an error frame
+            content: readResponseText(chunk).text,
             done: false
           }
         };
-        this.emit('response', response);
+        this.emit('response', response, client);
+      }
+
+      // Blocks were already caught on the chunk that carried them
+      const { usageMetadata, candidates } = await stream.response;
+      const finishReason = candidates?.[0]?.finishReason;
+      if (abortController.signal.aborted) {
+        return;
       }
 
       // Send final chunk
@@ -146,20 +189,28 @@ export class MCPHandlers extends EventEmitter {
         result: {
           type: 'stream',
           content: '',
-          done: true
+          done: true,
+          metadata: {
+            timestamp: Date.now(),
+            model: this.model.model,
+            tokens: usageMetadata?.totalTokenCount,
+            finishReason,
+            truncated: finishReason === 'MAX_TOKENS',
+            usage: toTokenUsage(usageMetadata)
+          }
         }
       };
-      this.emit('response', finalResponse);
+      this.emit('response', finalResponse, client);
 
     } catch (error) {
       this.log('Stream error:', error);
       throw error;
     } finally {
-      this.activeRequests.delete(request.id);
+      requests.delete(request.id);
     }
   }
 
-  async handleCancel(request: CancelRequest): Promise<MCPResponse> {
+  async handleCancel(request: CancelRequest, client: object = this): Promise<MCPResponse> {
     this.log('Handling cancel request:', request.params);
     
     if (!this.validateRequest(request, ['requestId'])) {
@@ -167,11 +218,12 @@ export class MCPHandlers extends EventEmitter {
     }
 
     const requestId = request.params.requestId;
-    const abortController = this.activeRequests.get(requestId);
+    const requests = this.requestsOf(client);
+    const abortController = requests.get(requestId);
 
     if (abortController) {
       abortController.abort();
-      this.activeRequests.delete(requestId);
+      requests.delete(requestId);
       return {
         jsonrpc: '2.0',
         id: request.id,
@@ -199,7 +251,7 @@ export class MCPHandlers extends EventEmitter {
     };
   }
 
-  async handleRequest(request: MCPRequest): Promise<MCPResponse> {
+  async handleRequest(request: MCPRequest, client: object = this): Promise<MCPResponse> {
     this.log('Handling request:', request.method);
 
     try {
@@ -208,14 +260,25 @@ export class MCPHandlers extends EventEmitter {
           return await this.handleInitialize(request);
 
         case 'generate':
-          return await this.handleGenerate(request as GenerateRequest);
+          return await this.handleGenerate(request as GenerateRequest, client);
 
-        case 'stream':
-          await this.handleStream(request as StreamRequest);
+        case 'stream': {
+          if (!this.validateRequest(request, ['prompt'])) {
+            throw new Error('Invalid or missing parameters');
+          }
+          // Start on the next turn of the event loop so that { started: true }
+          // reaches the client before the first chunk
+          const abortController = new AbortController();
+          this.requestsOf(client).set(request.id, abortController);
+          setImmediate(() => {
+            this.handleStream(request as StreamRequest, abortController, client)
+              .catch(error => this.emitStreamError(request.id, client, abortController, error));
+          });
           return { jsonrpc: '2.0', id: request.id, result: { started: true } };
+        }
 
         case 'cancel':
-          return await this.handleCancel(request as CancelRequest);
+          return await this.handleCancel(request as CancelRequest, client);
 
         case 'configure':
           return await this.handleConfigure(request as ConfigureRequest);
@@ -224,6 +287,10 @@ export class MCPHandlers extends EventEmitter {
           throw new Error(`Method not found: ${request.method}`);
       }
     } catch (error) {
+      const geminiError = toGeminiError(error);
+      if (geminiError) {
+        throw this.createError(geminiError.code, geminiError.message, geminiError.data);
+      }
       if (error instanceof Error) {
         if (error.message.includes('Method not found')) {
           throw this.createError(ERROR_CODES.METHOD_NOT_FOUND, error.message);
@@ -236,18 +303,37 @@ export class MCPHandlers extends EventEmitter {
     }
   }
 
-  cancelRequest(requestId: string | number): void {
-    const abortController = this.activeRequests.get(requestId);
-    if (abortController) {
+  // The stream already answered { started: true }, so failures go out as a final error frame
+  private emitStreamError(requestId: string | number, client: object, abortController: AbortController, error: any): void {
+    if (abortController.signal.aborted) {
+      return;
+    }
+    const geminiError = toGeminiError(error);
+    const response: MCPResponse = {
+      jsonrpc: '2.0',
+      id: requestId,
+      error: geminiError ? this.createError(geminiError.code, geminiError.message, geminiError.data) : {
+        code: error?.code ?? ERROR_CODES.GEMINI_API_ERROR,
+        message: error instanceof Error ? error.message : error?.message ?? 'Stream failed'
+      }
+    };
+    this.emit('response', response, client);
+  }
+
+  cancelRequest(requestId: string | number, client: object = this): void {
+    const requests = this.activeRequests.get(client);
+    const abortController = requests?.get(requestId);
+    if (requests && abortController) {
       abortController.abort();
-      this.activeRequests.delete(requestId);
+      requests.delete(requestId);
     }
   }
 
-  private createError(code: number, message: string) {
+  private createError(code: number, message: string, data?: any) {
     return {
       code,
-      message
+      message,
+      ...(data !== undefined && { data })
     };
   }
 }
\ No newline at end of file
@@ -36,9 +36,17 @@ export interface PromptContent {
   metadata?: Record<string, any>;
 }
 
+export interface PromptMessage {
+  role: 'user' | 'assistant';
+  content: {
+    type: 'text';
+    text: string;
+  };
+}
+
 export interface GetPromptResponse extends MCPResponse {
   result: {
     description?: string;
-    content: PromptContent[];
+    messages: PromptMessage[];
   };
 }
\ No newline at end of file
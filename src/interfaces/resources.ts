@@ -24,6 +24,16 @@ export interface ListResourcesResponse extends MCPResponse {
   };
 }
 
+export interface ListResourceTemplatesRequest extends MCPRequest {
+  method: 'resources/templates/list';
+}
+
+export interface ListResourceTemplatesResponse extends MCPResponse {
+  result: {
+    resourceTemplates: ResourceTemplate[];
+  };
+}
+
 export interface ReadResourceRequest extends MCPRequest {
   method: 'resources/read';
   params: {
@@ -34,7 +44,7 @@ export interface ReadResourceRequest extends MCPRequest {
 export interface ResourceContent {
   uri: string;
   mimeType?: string;
-  content: string;
+  text: string;
 }
 
 export interface ReadResourceResponse extends MCPResponse {
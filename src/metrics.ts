@@ -0,0 +1,175 @@
+import type { CacheStatus } from './cache/types.js';
+import type { GeminiCallTiming, RequestOutcome } from './core.js';
+import type { TokenUsage } from './gemini/usage.js';
+import type { RateLimitError } from './rateLimit.js';
+import { DEFAULT_MODEL } from './protocol.js';
+import { DEFAULT_PRICES, PriceTable } from './usage/index.js';
+
+type Labels = Record<string, string>;
+
+// Upper bounds in seconds; Gemini answers range from well under a second to minutes for long outputs
+const LATENCY_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120];
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+// Clients pick the model of some tools, so names are reduced to a known model family or 'other'
+function modelLabel(model: string, families: string[]): string {
+  const name = model.replace(/^models\//, '');
+  if (name === DEFAULT_MODEL) {
+    return name;
+  }
+  return families.filter(family => name.startsWith(family)).sort((a, b) => b.length - a.length)[0] ?? 'other';
+}
+
+function header(name: string, help: string, type: string): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+/**
+ * A monotonically increasing count per label set.
+ */
+export class Counter {
+  private values: Map<string, { labels: Labels; value: number }> = new Map();
+
+  constructor(public readonly name: string, private help: string) {}
+
+  inc(labels: Labels = {}, amount = 1): void {
+    const key = formatLabels(labels);
+    const entry = this.values.get(key) || { labels, value: 0 };
+    entry.value += amount;
+    this.values.set(key, entry);
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(formatLabels(labels))?.value ?? 0;
+  }
+
+  render(): string[] {
+    return [
+      ...header(this.name, this.help, 'counter'),
+      ...Array.from(this.values.values()).map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`)
+    ];
+  }
+}
+
+/**
+ * Counts observations into cumulative buckets, plus their sum and count.
+ */
+export class Histogram {
+  private series: Map<string, { labels: Labels; buckets: number[]; sum: number; count: number }> = new Map();
+
+  constructor(public readonly name: string, private help: string, private bounds: number[] = LATENCY_BUCKETS) {}
+
+  observe(value: number, labels: Labels = {}): void {
+    const key = formatLabels(labels);
+    const entry = this.series.get(key) || { labels, buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+    this.bounds.forEach((bound, index) => {
+      if (value <= bound) {
+        entry.buckets[index]++;
+      }
+    });
+    entry.sum += value;
+    entry.count++;
+    this.series.set(key, entry);
+  }
+
+  render(): string[] {
+    const lines = header(this.name, this.help, 'histogram');
+    for (const { labels, buckets, sum, count } of this.series.values()) {
+      this.bounds.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${buckets[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+function gauge(name: string, help: string, samples: [Labels, number][]): string[] {
+  return [...header(name, help, 'gauge'), ...samples.map(([labels, value]) => `${name}${formatLabels(labels)} ${value}`)];
+}
+
+/**
+ * Point-in-time values read from the server when metrics are scraped.
+ */
+export interface ServerGauges {
+  uptimeSeconds: number;
+  websocketConnections: number;
+  httpSessions: number;
+  inFlightRequests: number;
+}
+
+/**
+ * Counters and histograms of the WebSocket/HTTP server, rendered in the
+ * Prometheus text exposition format for GET /metrics.
+ */
+export class ServerMetrics {
+  private requests = new Counter('gemini_mcp_requests_total', 'JSON-RPC requests handled, by method, tool and status');
+  private geminiLatency = new Histogram('gemini_mcp_gemini_request_duration_seconds', 'Latency of Gemini API calls, per attempt');
+  private tokens = new Counter('gemini_mcp_tokens_total', 'Gemini tokens used, by type');
+  private rateLimited = new Counter('gemini_mcp_rate_limit_rejections_total', 'Requests rejected by the rate limiter, by scope and limit');
+  private cacheLookups = new Counter('gemini_mcp_cache_lookups_total', 'Response cache lookups, by result');
+  private modelFamilies: string[];
+
+  // The families of the price table, including configured prices, are the models told apart
+  constructor(prices: PriceTable = {}) {
+    this.modelFamilies = Object.keys({ ...DEFAULT_PRICES, ...prices });
+  }
+
+  recordRequest(outcome: RequestOutcome): void {
+    this.requests.inc({ method: outcome.method, tool: outcome.tool ?? '', status: outcome.status });
+  }
+
+  recordGeminiCall(timing: GeminiCallTiming): void {
+    this.geminiLatency.observe(timing.durationMs / 1000, {
+      model: modelLabel(timing.model, this.modelFamilies),
+      operation: timing.operation,
+      status: timing.ok ? 'ok' : 'error'
+    });
+  }
+
+  recordUsage(usage: TokenUsage): void {
+    this.tokens.inc({ type: 'prompt' }, usage.promptTokens);
+    this.tokens.inc({ type: 'completion' }, usage.completionTokens ?? 0);
+    this.tokens.inc({ type: 'total' }, usage.totalTokens);
+  }
+
+  recordRateLimit(error: RateLimitError): void {
+    this.rateLimited.inc({ scope: error.scope, limit: error.limit });
+  }
+
+  recordCache(status: CacheStatus): void {
+    this.cacheLookups.inc({ result: status });
+  }
+
+  render(gauges: ServerGauges): string {
+    const hits = this.cacheLookups.get({ result: 'hit' });
+    const lookups = hits + this.cacheLookups.get({ result: 'miss' });
+
+    return [
+      ...gauge('gemini_mcp_uptime_seconds', 'Seconds since the server started', [[{}, gauges.uptimeSeconds]]),
+      ...gauge('gemini_mcp_active_connections', 'Open WebSocket connections and Streamable HTTP sessions', [
+        [{ transport: 'websocket' }, gauges.websocketConnections],
+        [{ transport: 'http' }, gauges.httpSessions]
+      ]),
+      ...gauge('gemini_mcp_in_flight_requests', 'Requests being handled right now', [[{}, gauges.inFlightRequests]]),
+      ...this.requests.render(),
+      ...this.geminiLatency.render(),
+      ...this.tokens.render(),
+      ...this.rateLimited.render(),
+      ...this.cacheLookups.render(),
+      // Lookups that bypassed the cache don't count; no sample until the cache has been asked
+      ...gauge('gemini_mcp_cache_hit_ratio', 'Share of cacheable Gemini calls answered from the response cache',
+        lookups > 0 ? [[{}, hits / lookups]] : [])
+    ].join('\n') + '\n';
+  }
+}
@@ -0,0 +1,104 @@
+import { PromptArgument } from '../interfaces/prompts.js';
+
+export interface PromptTemplateArgument extends PromptArgument {
+  // Allowed values, enforced by prompts/get
+  enum?: string[];
+}
+
+/**
+ * A reusable prompt. `template` uses `{{name}}` placeholders for arguments
+ * and `{{#name}}...{{/name}}` for sections only rendered when `name` is given.
+ */
+export interface PromptTemplate {
+  name: string;
+  description?: string;
+  arguments?: PromptTemplateArgument[];
+  template: string;
+}
+
+export const BUILTIN_PROMPTS: PromptTemplate[] = [
+  {
+    name: 'code_review',
+    description: 'Review code for bugs, readability and maintainability',
+    arguments: [
+      { name: 'code', description: 'The code to review', required: true },
+      { name: 'language', description: 'Programming language of the code' },
+      { name: 'focus', description: 'Areas to focus on (e.g., "security", "performance")' }
+    ],
+    template: `Review the following{{#language}} {{language}}{{/language}} code.{{#focus}} Focus on: {{focus}}.{{/focus}}
+
+\`\`\`{{language}}
+{{code}}
+\`\`\`
+
+For each issue, give the location, why it matters and a concrete fix. Finish with an overall assessment.`
+  },
+
+  {
+    name: 'commit_message',
+    description: 'Write a commit message for a diff',
+    arguments: [
+      { name: 'diff', description: 'The diff to describe', required: true },
+      {
+        name: 'style',
+        description: 'Commit message style',
+        enum: ['conventional', 'simple', 'detailed']
+      },
+      { name: 'context', description: 'Why the change was made (issue, motivation)' }
+    ],
+    template: `Write a{{#style}} {{style}}{{/style}} git commit message for the following diff. Use an imperative subject line of at most 72 characters, then a blank line and a short body explaining what changed and why.{{#context}}
+
+Context: {{context}}{{/context}}
+
+\`\`\`diff
+{{diff}}
+\`\`\``
+  },
+
+  {
+    name: 'bug_triage',
+    description: 'Triage a bug report: likely cause, severity and next steps',
+    arguments: [
+      { name: 'report', description: 'The bug report or issue description', required: true },
+      { name: 'stackTrace', description: 'Stack trace or error output' },
+      { name: 'environment', description: 'Runtime environment (OS, versions, configuration)' }
+    ],
+    template: `Triage the following bug report.
+
+Report:
+{{report}}{{#stackTrace}}
+
+Stack trace:
+\`\`\`
+{{stackTrace}}
+\`\`\`{{/stackTrace}}{{#environment}}
+
+Environment: {{environment}}{{/environment}}
+
+Provide:
+1. A one-line summary
+2. Severity (critical/high/medium/low) with justification
+3. The most likely root causes, in order of likelihood
+4. Information missing from the report
+5. Suggested next steps to reproduce and fix`
+  },
+
+  {
+    name: 'translate_with_glossary',
+    description: 'Translate text while enforcing a terminology glossary',
+    arguments: [
+      { name: 'text', description: 'Text to translate', required: true },
+      { name: 'targetLanguage', description: 'Target language', required: true },
+      { name: 'sourceLanguage', description: 'Source language (detected if not provided)' },
+      { name: 'glossary', description: 'Glossary entries, one "term = translation" per line' }
+    ],
+    template: `Translate the following text{{#sourceLanguage}} from {{sourceLanguage}}{{/sourceLanguage}} to {{targetLanguage}}.{{#glossary}}
+
+Always use these translations for the listed terms:
+{{glossary}}{{/glossary}}
+
+Provide only the translation without any additional explanation:
+
+{{text}}`
+  }
+];
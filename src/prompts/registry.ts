@@ -0,0 +1,127 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { MCPResponse } from '../types.js';
+import { ERROR_CODES } from '../protocol.js';
+import { Prompt } from '../interfaces/prompts.js';
+import { BUILTIN_PROMPTS, PromptTemplate } from './library.js';
+
+/**
+ * Renders `{{name}}` placeholders and `{{#name}}...{{/name}}` optional sections.
+ */
+export function renderTemplate(template: string, args: Record<string, string>): string {
+  const withSections = template.replace(
+    /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g,
+    (_, name: string, section: string) => (args[name] ? section : '')
+  );
+  return withSections.replace(/\{\{(\w+)\}\}/g, (_, name: string) => args[name] ?? '');
+}
+
+function isPromptTemplate(value: any): value is PromptTemplate {
+  return typeof value === 'object' && value !== null &&
+    typeof value.name === 'string' && value.name.length > 0 &&
+    typeof value.template === 'string' &&
+    (value.arguments === undefined || Array.isArray(value.arguments));
+}
+
+/**
+ * Holds the prompt templates served by prompts/list and prompts/get.
+ * Templates registered later replace earlier ones with the same name,
+ * so a team's prompt directory can override the built-in library.
+ */
+export class PromptRegistry {
+  private prompts: Map<string, PromptTemplate> = new Map();
+
+  constructor(templates: PromptTemplate[] = BUILTIN_PROMPTS) {
+    templates.forEach(template => this.register(template));
+  }
+
+  register(template: PromptTemplate): void {
+    this.prompts.set(template.name, template);
+  }
+
+  get(name: string): PromptTemplate | undefined {
+    return this.prompts.get(name);
+  }
+
+  list(): Prompt[] {
+    return Array.from(this.prompts.values()).map(({ name, description, arguments: args }) => ({
+      name,
+      description,
+      arguments: (args || []).map(({ name, description, required }) => ({ name, description, required }))
+    }));
+  }
+
+  /**
+   * Loads every `*.json` template in `dir`. Invalid files are reported and skipped.
+   * Returns the names of the loaded prompts.
+   */
+  async loadDirectory(dir: string): Promise<string[]> {
+    const loaded: string[] = [];
+    const files = (await fs.readdir(dir)).filter(file => file.endsWith('.json')).sort();
+
+    for (const file of files) {
+      try {
+        const template = JSON.parse(await fs.readFile(path.join(dir, file), 'utf-8'));
+        if (!isPromptTemplate(template)) {
+          throw new Error('expected an object with "name" and "template" strings');
+        }
+        this.register(template);
+        loaded.push(template.name);
+      } catch (error) {
+        console.error(`Skipping prompt template ${file}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    return loaded;
+  }
+
+  render(id: string | number, name: string, args: Record<string, string> = {}): MCPResponse {
+    const prompt = this.prompts.get(name);
+    if (!prompt) {
+      return this.errorResponse(id, `Unknown prompt: ${name}`);
+    }
+
+    for (const argument of prompt.arguments || []) {
+      const value = args[argument.name];
+      if (argument.required && (value === undefined || value === '')) {
+        return this.errorResponse(id, `Missing required argument: ${argument.name}`, {
+          prompt: name,
+          field: argument.name
+        });
+      }
+      if (value !== undefined && argument.enum && !argument.enum.includes(value)) {
+        return this.errorResponse(id, `${argument.name} must be one of: ${argument.enum.join(', ')}`, {
+          prompt: name,
+          field: argument.name
+        });
+      }
+    }
+
+    return {
+      jsonrpc: '2.0',
+      id,
+      result: {
+        description: prompt.description,
+        messages: [{
+          role: 'user',
+          content: {
+            type: 'text',
+            text: renderTemplate(prompt.template, args)
+          }
+        }]
+      }
+    };
+  }
+
+  private errorResponse(id: string | number, message: string, data?: any): MCPResponse {
+    return {
+      jsonrpc: '2.0',
+      id,
+      error: {
+        code: ERROR_CODES.INVALID_PARAMS,
+        message,
+        ...(data && { data })
+      }
+    };
+  }
+}
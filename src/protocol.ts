@@ -1,7 +1,37 @@
-import { ServerCapabilities, ServerInfo, InitializeResult, ProgressParams } from './types.js';
+import {
+  ClientCapabilities,
+  ClientInfo,
+  InitializeParams,
+  InitializeResult,
+  ProgressParams,
+  ServerCapabilities,
+  ServerInfo
+} from './types.js';
 
+// Version assumed for clients that don't request one
 export const PROTOCOL_VERSION = '2024-11-05';
 
+// Oldest first; dated versions compare correctly as strings
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2024-11-05', '2025-03-26', '2025-06-18'];
+
+export const LATEST_PROTOCOL_VERSION = SUPPORTED_PROTOCOL_VERSIONS[SUPPORTED_PROTOCOL_VERSIONS.length - 1];
+
+/**
+ * Behavior that depends on the negotiated protocol version.
+ */
+export interface ProtocolFeatures {
+  // Tool annotations (readOnlyHint, destructiveHint, ...) in tools/list
+  toolAnnotations: boolean;
+  // outputSchema in tools/list and structuredContent in tool results
+  structuredContent: boolean;
+  // JSON-RPC batch requests
+  batching: boolean;
+  // Human-readable message in notifications/progress
+  progressMessages: boolean;
+}
+
+export const DEFAULT_MODEL = 'gemini-2.5-pro-preview-05-06';
+
 // Standard JSON-RPC error codes
 export const ERROR_CODES = {
   PARSE_ERROR: -32700,
@@ -11,71 +41,181 @@ export const ERROR_CODES = {
   INTERNAL_ERROR: -32603,
   SERVER_NOT_INITIALIZED: -32002,
   UNKNOWN_ERROR: -32001,
+  SERVER_BUSY: -32003,
   
   // Custom error codes for Gemini
   GEMINI_API_ERROR: -32100,
   GEMINI_RATE_LIMIT: -32101,
   GEMINI_INVALID_TOKEN: -32102,
-  GEMINI_CONTENT_FILTER: -32103
+  GEMINI_CONTENT_FILTER: -32103,
+  GEMINI_CONTEXT_LIMIT: -32104
 } as const;
 
 export const SERVER_INFO: ServerInfo = {
   name: 'gemini-mcp',
-  version: '1.0.0'
+  version: '2.5.0'
 };
 
 export const SERVER_CAPABILITIES: ServerCapabilities = {
   experimental: {},
-  prompts: { listChanged: true },
-  resources: { subscribe: true, listChanged: true },
-  tools: { listChanged: true },
+  prompts: {},
+  resources: {},
+  tools: {},
+  completions: {},
   logging: {}
 };
 
+/**
+ * Picks the highest supported version that is not newer than the one the
+ * client requested. Clients older than every supported version get the
+ * oldest, and a missing or malformed version falls back to PROTOCOL_VERSION.
+ */
+export function negotiateProtocolVersion(requested: unknown): string {
+  if (typeof requested !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(requested)) {
+    return PROTOCOL_VERSION;
+  }
+  const compatible = SUPPORTED_PROTOCOL_VERSIONS.filter(version => version <= requested);
+  return compatible.length > 0 ? compatible[compatible.length - 1] : SUPPORTED_PROTOCOL_VERSIONS[0];
+}
+
+export function getProtocolFeatures(version: string): ProtocolFeatures {
+  return {
+    toolAnnotations: version >= '2025-03-26',
+    structuredContent: version >= '2025-06-18',
+    // Added in 2025-03-26 and removed again in 2025-06-18
+    batching: version === '2025-03-26',
+    progressMessages: version >= '2025-03-26'
+  };
+}
+
+/**
+ * Where a client is in the MCP lifecycle:
+ * initialize -> notifications/initialized -> operation -> shutdown.
+ */
+export type LifecyclePhase = 'awaiting-initialize' | 'initializing' | 'operational' | 'shutdown';
+
+/**
+ * Raised when a message is not allowed in the client's current lifecycle phase.
+ */
+export class ProtocolStateError extends Error {
+  constructor(public code: number, message: string) {
+    super(message);
+    this.name = 'ProtocolStateError';
+  }
+}
+
+/**
+ * Lifecycle and negotiated settings of a single client connection.
+ * `local` is set by transports whose client runs on this machine as the
+ * same user, such as stdio; network clients get restricted file access.
+ */
 export class ProtocolManager {
-  private initialized = false;
-  private shutdownRequested = false;
+  private phase: LifecyclePhase = 'awaiting-initialize';
+  private protocolVersion = PROTOCOL_VERSION;
+  private client?: ClientInfo;
+  private capabilities: ClientCapabilities = {};
+  private minLogLevel = 'info';
+
+  constructor(public readonly local: boolean = false) {}
+
+  /**
+   * Settles on the version to speak with the client from the one it requested.
+   */
+  negotiate(requestedVersion: unknown): string {
+    this.protocolVersion = negotiateProtocolVersion(requestedVersion);
+    return this.protocolVersion;
+  }
 
-  constructor() {}
+  get version(): string {
+    return this.protocolVersion;
+  }
+
+  get features(): ProtocolFeatures {
+    return getProtocolFeatures(this.protocolVersion);
+  }
+
+  get lifecyclePhase(): LifecyclePhase {
+    return this.phase;
+  }
+
+  get clientInfo(): ClientInfo | undefined {
+    return this.client;
+  }
+
+  get clientCapabilities(): ClientCapabilities {
+    return this.capabilities;
+  }
+
+  // Lowest severity of notifications/message the client wants, as set with logging/setLevel
+  get logLevel(): string {
+    return this.minLogLevel;
+  }
+
+  setLogLevel(level: string): void {
+    this.minLogLevel = level;
+  }
+
+  /**
+   * Records the client's initialize request and returns the result to send back.
+   * The connection stays in 'initializing' until notifications/initialized.
+   */
+  initialize(params: InitializeParams = {}): InitializeResult {
+    this.negotiate(params.protocolVersion);
+    this.client = params.clientInfo;
+    this.capabilities = params.capabilities || {};
+    this.phase = 'initializing';
+    return this.createInitializeResult();
+  }
 
   isInitialized(): boolean {
-    return this.initialized;
+    return this.phase === 'initializing' || this.phase === 'operational';
   }
 
   markAsInitialized(): void {
-    this.initialized = true;
+    if (this.phase === 'initializing') {
+      this.phase = 'operational';
+    }
   }
 
   requestShutdown(): void {
-    this.shutdownRequested = true;
+    this.phase = 'shutdown';
   }
 
   isShutdownRequested(): boolean {
-    return this.shutdownRequested;
+    return this.phase === 'shutdown';
   }
 
   createInitializeResult(): InitializeResult {
     return {
-      protocolVersion: PROTOCOL_VERSION,
+      protocolVersion: this.protocolVersion,
       serverInfo: SERVER_INFO,
       capabilities: SERVER_CAPABILITIES
     };
   }
 
-  createProgressNotification(token: string | number, progress: number, total?: number): ProgressParams {
+  createProgressNotification(token: string | number, progress: number, total?: number, message?: string): ProgressParams {
     return {
       progressToken: token,
       progress,
-      total
+      total,
+      ...(message && this.features.progressMessages && { message })
     };
   }
 
+  /**
+   * Throws a ProtocolStateError if `method` is not allowed in the current phase.
+   * Requests are accepted before notifications/initialized arrives, since
+   * clients of the original WebSocket protocol never send it.
+   */
   validateState(method: string): void {
-    if (method !== 'initialize' && !this.initialized) {
-      throw new Error('Server not initialized');
+    if (this.phase === 'shutdown' && method !== 'exit') {
+      throw new ProtocolStateError(ERROR_CODES.INVALID_REQUEST, 'Server is shutting down');
+    }
+    if (method === 'initialize' && this.phase !== 'awaiting-initialize') {
+      throw new ProtocolStateError(ERROR_CODES.INVALID_REQUEST, 'Connection is already initialized');
     }
-    if (this.shutdownRequested && method !== 'exit') {
-      throw new Error('Server is shutting down');
+    if (this.phase === 'awaiting-initialize' && method !== 'initialize' && method !== 'ping') {
+      throw new ProtocolStateError(ERROR_CODES.SERVER_NOT_INITIALIZED, 'Server not initialized');
     }
   }
 }
@@ -0,0 +1,164 @@
+import { ERROR_CODES } from './protocol.js';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Only these reach Gemini; everything else is answered locally and never limited
+export const RATE_LIMITED_METHODS = ['tools/call', 'generate', 'stream'];
+
+export interface RateLimit {
+  requestsPerMinute?: number;
+  // Gemini tokens, as reported in usage metadata
+  tokensPerDay?: number;
+}
+
+export interface RateLimitOptions {
+  perConnection?: RateLimit;
+  // Shared by all connections of the same client, see RateLimiter.check
+  perClient?: RateLimit;
+  // Shared by everyone using the server's API key
+  global?: RateLimit;
+}
+
+export type RateLimitScope = 'connection' | 'client' | 'global';
+
+/**
+ * Refills continuously up to its capacity. Tokens are spent after a
+ * Gemini call returns, so the balance can drop below zero; the next
+ * request then waits until a whole token is back.
+ */
+export class TokenBucket {
+  private balance: number;
+  private updatedAt: number;
+
+  constructor(public readonly capacity: number, private refillPerMs: number, now: number = Date.now()) {
+    this.balance = capacity;
+    this.updatedAt = now;
+  }
+
+  available(now: number = Date.now()): number {
+    this.balance = Math.min(this.capacity, this.balance + (now - this.updatedAt) * this.refillPerMs);
+    this.updatedAt = now;
+    return this.balance;
+  }
+
+  // Milliseconds until `amount` can be taken; 0 if it can be taken now
+  waitMs(amount: number, now: number = Date.now()): number {
+    const missing = amount - this.available(now);
+    return missing <= 0 ? 0 : Math.ceil(missing / this.refillPerMs);
+  }
+
+  take(amount: number, now: number = Date.now()): void {
+    this.balance = this.available(now) - amount;
+  }
+
+  isFull(now: number = Date.now()): boolean {
+    return this.available(now) >= this.capacity;
+  }
+}
+
+/**
+ * Request and token buckets of one scope. Missing buckets mean no limit.
+ */
+export interface RateBudget {
+  requests?: TokenBucket;
+  tokens?: TokenBucket;
+}
+
+export function createBudget(limit: RateLimit = {}, now: number = Date.now()): RateBudget {
+  return {
+    requests: limit.requestsPerMinute ? new TokenBucket(limit.requestsPerMinute, limit.requestsPerMinute / MINUTE_MS, now) : undefined,
+    tokens: limit.tokensPerDay ? new TokenBucket(limit.tokensPerDay, limit.tokensPerDay / DAY_MS, now) : undefined
+  };
+}
+
+// Connections of the same client share a budget; clients that don't say who they are are told apart by address
+export function clientIdFor(clientName: string | undefined, ip: string): string {
+  return clientName ? `name:${clientName}` : `ip:${ip}`;
+}
+
+/**
+ * Raised for calls over one of the configured limits.
+ */
+export class RateLimitError extends Error {
+  code = ERROR_CODES.GEMINI_RATE_LIMIT;
+
+  constructor(public scope: RateLimitScope, public limit: 'requests' | 'tokens', public retryAfterMs: number) {
+    super(`Rate limit exceeded: ${limit === 'requests' ? 'requests per minute' : 'Gemini tokens per day'} for this ${scope === 'global' ? 'server' : scope}. Retry in ${Math.ceil(retryAfterMs / 1000)}s`);
+    this.name = 'RateLimitError';
+  }
+
+  // Same shape as the data of rate limits reported by Gemini itself
+  get data() {
+    return { kind: 'rate_limit', scope: this.scope, limit: this.limit, retryAfterMs: this.retryAfterMs };
+  }
+}
+
+/**
+ * Enforces request and token budgets per connection, per client and for
+ * the whole server. Connection budgets are created here but owned by the
+ * transport's connection state; client and global budgets live here.
+ */
+export class RateLimiter {
+  private clients: Map<string, RateBudget> = new Map();
+  private global: RateBudget;
+
+  constructor(private options: RateLimitOptions = {}, now: number = Date.now()) {
+    this.global = createBudget(options.global, now);
+  }
+
+  createConnectionBudget(now: number = Date.now()): RateBudget {
+    return createBudget(this.options.perConnection, now);
+  }
+
+  /**
+   * Takes one request from every budget, or none of them if any is
+   * exhausted, in which case it throws a RateLimitError with the longest
+   * wait. `clientId` groups connections of the same client.
+   */
+  check(connection: RateBudget, clientId: string, now: number = Date.now()): void {
+    const budgets = this.budgetsFor(connection, clientId, now);
+
+    let exceeded: RateLimitError | undefined;
+    for (const [scope, budget] of budgets) {
+      const waits: ['requests' | 'tokens', number][] = [
+        ['requests', budget.requests?.waitMs(1, now) ?? 0],
+        // One token left is enough, since a call's cost is only known once it returns
+        ['tokens', budget.tokens?.waitMs(1, now) ?? 0]
+      ];
+      for (const [limit, waitMs] of waits) {
+        if (waitMs > 0 && (!exceeded || waitMs > exceeded.retryAfterMs)) {
+          exceeded = new RateLimitError(scope, limit, waitMs);
+        }
+      }
+    }
+    if (exceeded) {
+      throw exceeded;
+    }
+
+    budgets.forEach(([, budget]) => budget.requests?.take(1, now));
+  }
+
+  // Charges the tokens a finished call used against every budget
+  recordTokens(connection: RateBudget, clientId: string, tokens: number, now: number = Date.now()): void {
+    this.budgetsFor(connection, clientId, now).forEach(([, budget]) => budget.tokens?.take(tokens, now));
+  }
+
+  // Forgets clients whose budgets have fully refilled, since a fresh budget is the same
+  prune(now: number = Date.now()): void {
+    this.clients.forEach((budget, clientId) => {
+      if ((budget.requests?.isFull(now) ?? true) && (budget.tokens?.isFull(now) ?? true)) {
+        this.clients.delete(clientId);
+      }
+    });
+  }
+
+  private budgetsFor(connection: RateBudget, clientId: string, now: number): [RateLimitScope, RateBudget][] {
+    let client = this.clients.get(clientId);
+    if (!client) {
+      client = createBudget(this.options.perClient, now);
+      this.clients.set(clientId, client);
+    }
+    return [['connection', connection], ['client', client], ['global', this.global]];
+  }
+}
@@ -0,0 +1,158 @@
+import { MCPResponse } from '../types.js';
+import { ERROR_CODES } from '../protocol.js';
+import { Resource, ResourceTemplate } from '../interfaces/resources.js';
+
+export interface ResourceBody {
+  text: string;
+  mimeType?: string;
+}
+
+/**
+ * A resource with a fixed URI.
+ */
+export interface ResourceDefinition extends Resource {
+  read: () => Promise<ResourceBody>;
+}
+
+/**
+ * A family of resources addressed by an RFC 6570 URI template,
+ * e.g. `gemini://sessions/{sessionId}{?format}`.
+ */
+export interface ResourceTemplateDefinition extends ResourceTemplate {
+  // Concrete resources currently available, included in resources/list
+  list: () => Promise<Resource[]>;
+  // Returns undefined when the variables don't name an existing resource
+  read: (variables: Record<string, string>) => Promise<ResourceBody | undefined>;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Matches a URI against a template supporting `{var}` path segments and a
+ * trailing `{?a,b}` query expression. Returns the extracted variables, or
+ * null when the URI does not match.
+ */
+export function matchUriTemplate(uriTemplate: string, uri: string): Record<string, string> | null {
+  const names: string[] = [];
+  let queryNames: string[] = [];
+  let pattern = '';
+  let lastIndex = 0;
+
+  for (const match of uriTemplate.matchAll(/\{(\??)([\w,]+)\}/g)) {
+    pattern += escapeRegExp(uriTemplate.slice(lastIndex, match.index));
+    if (match[1] === '?') {
+      queryNames = match[2].split(',');
+      pattern += '(?:\\?([^#]*))?';
+    } else {
+      names.push(match[2]);
+      pattern += '([^/?#]+)';
+    }
+    lastIndex = match.index! + match[0].length;
+  }
+  pattern += escapeRegExp(uriTemplate.slice(lastIndex));
+
+  const result = new RegExp(`^${pattern}$`).exec(uri);
+  if (!result) {
+    return null;
+  }
+
+  const variables: Record<string, string> = {};
+  names.forEach((name, index) => {
+    variables[name] = decodeURIComponent(result[index + 1]);
+  });
+  if (queryNames.length > 0 && result[names.length + 1]) {
+    const query = new URLSearchParams(result[names.length + 1]);
+    for (const name of queryNames) {
+      const value = query.get(name);
+      if (value !== null) {
+        variables[name] = value;
+      }
+    }
+  }
+  return variables;
+}
+
+/**
+ * Serves resources/list, resources/templates/list and resources/read.
+ */
+export class ResourceRegistry {
+  private resources: Map<string, ResourceDefinition> = new Map();
+  private templates: ResourceTemplateDefinition[] = [];
+
+  register(resource: ResourceDefinition): void {
+    if (this.resources.has(resource.uri)) {
+      throw new Error(`Resource already registered: ${resource.uri}`);
+    }
+    this.resources.set(resource.uri, resource);
+  }
+
+  registerTemplate(template: ResourceTemplateDefinition): void {
+    this.templates.push(template);
+  }
+
+  async list(): Promise<Resource[]> {
+    const fixed = Array.from(this.resources.values()).map(({ uri, name, description, mimeType }) => ({
+      uri,
+      name,
+      description,
+      mimeType
+    }));
+    const dynamic = await Promise.all(this.templates.map(template => template.list()));
+    return [...fixed, ...dynamic.flat()];
+  }
+
+  listTemplates(): ResourceTemplate[] {
+    return this.templates.map(({ uriTemplate, name, description, mimeType }) => ({
+      uriTemplate,
+      name,
+      description,
+      mimeType
+    }));
+  }
+
+  async read(id: string | number, uri: string): Promise<MCPResponse> {
+    let body: ResourceBody | undefined;
+    let mimeType: string | undefined;
+
+    const resource = this.resources.get(uri);
+    if (resource) {
+      body = await resource.read();
+      mimeType = resource.mimeType;
+    } else {
+      for (const template of this.templates) {
+        const variables = matchUriTemplate(template.uriTemplate, uri);
+        if (variables) {
+          body = await template.read(variables);
+          mimeType = template.mimeType;
+          break;
+        }
+      }
+    }
+
+    if (!body) {
+      return {
+        jsonrpc: '2.0',
+        id,
+        error: {
+          code: ERROR_CODES.INVALID_PARAMS,
+          message: `Resource not found: ${uri}`,
+          data: { uri }
+        }
+      };
+    }
+
+    return {
+      jsonrpc: '2.0',
+      id,
+      result: {
+        contents: [{
+          uri,
+          mimeType: body.mimeType || mimeType,
+          text: body.text
+        }]
+      }
+    };
+  }
+}
@@ -0,0 +1,153 @@
+import { ERROR_CODES } from './protocol.js';
+import { MCPRequest } from './types.js';
+
+export const DEFAULT_CONCURRENCY = 4;
+export const DEFAULT_MAX_QUEUE = 64;
+
+// Answered from memory, so they never wait behind Gemini calls
+const CHEAP_METHODS = new Set([
+  'initialize',
+  'ping',
+  'tools/list',
+  'prompts/list',
+  'resources/list',
+  'resources/templates/list',
+  'completion/complete',
+  'logging/setLevel'
+]);
+
+export interface SchedulerOptions {
+  // Requests running at the same time
+  concurrency?: number;
+  // Lower limits for individual tools, by tool name
+  toolConcurrency?: Record<string, number>;
+  // Requests allowed to wait for a slot; more are rejected
+  maxQueue?: number;
+}
+
+/**
+ * Raised when a request arrives while the queue is full.
+ */
+export class QueueFullError extends Error {
+  code = ERROR_CODES.SERVER_BUSY;
+
+  constructor(public maxQueue: number) {
+    super(`Server is busy: ${maxQueue} requests are already waiting`);
+    this.name = 'QueueFullError';
+  }
+}
+
+interface QueuedRequest {
+  id: string | number;
+  key: string;
+  start: () => void;
+  drop: () => void;
+}
+
+/**
+ * Limits how many requests run at once, overall and per tool. Cheap
+ * methods such as ping and tools/list skip the queue; everything else
+ * waits for a free slot in arrival order, except that a request held back
+ * by its tool's limit doesn't block requests for other tools.
+ */
+export class RequestScheduler {
+  private concurrency: number;
+  private toolConcurrency: Record<string, number>;
+  private maxQueue: number;
+  private queue: QueuedRequest[] = [];
+  private running = 0;
+  private runningByKey: Map<string, number> = new Map();
+
+  constructor(options: SchedulerOptions = {}) {
+    this.concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+    this.toolConcurrency = options.toolConcurrency ?? {};
+    this.maxQueue = options.maxQueue ?? DEFAULT_MAX_QUEUE;
+  }
+
+  get activeCount(): number {
+    return this.running;
+  }
+
+  get queuedCount(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Runs `run` once the request gets a slot. Resolves to null if the
+   * request is cancelled while still queued, and rejects with
+   * QueueFullError if there is no room to wait.
+   */
+  schedule<T>(request: MCPRequest, run: () => Promise<T>): Promise<T | null> {
+    if (CHEAP_METHODS.has(request.method)) {
+      return run();
+    }
+
+    const key = this.keyOf(request);
+    if (this.canStart(key)) {
+      return this.execute(key, run);
+    }
+    if (this.queue.length >= this.maxQueue) {
+      return Promise.reject(new QueueFullError(this.maxQueue));
+    }
+
+    return new Promise<T | null>((resolve, reject) => {
+      this.queue.push({
+        id: request.id,
+        key,
+        start: () => this.execute(key, run).then(resolve, reject),
+        drop: () => resolve(null)
+      });
+    });
+  }
+
+  /**
+   * Drops a request that is still waiting. Returns false if it is not
+   * queued, e.g. because it has already started.
+   */
+  cancel(requestId: string | number): boolean {
+    const index = this.queue.findIndex(queued => queued.id === requestId);
+    if (index === -1) {
+      return false;
+    }
+    const [queued] = this.queue.splice(index, 1);
+    queued.drop();
+    return true;
+  }
+
+  // Tool calls are limited by tool name, other requests by method
+  private keyOf(request: MCPRequest): string {
+    return request.method === 'tools/call' && typeof request.params?.name === 'string'
+      ? request.params.name
+      : request.method;
+  }
+
+  private canStart(key: string): boolean {
+    const toolLimit = this.toolConcurrency[key];
+    return this.running < this.concurrency &&
+      (toolLimit === undefined || (this.runningByKey.get(key) ?? 0) < toolLimit);
+  }
+
+  private async execute<T>(key: string, run: () => Promise<T>): Promise<T> {
+    this.running++;
+    this.runningByKey.set(key, (this.runningByKey.get(key) ?? 0) + 1);
+    try {
+      return await run();
+    } finally {
+      this.running--;
+      this.runningByKey.set(key, (this.runningByKey.get(key) ?? 1) - 1);
+      this.startQueued();
+    }
+  }
+
+  private startQueued(): void {
+    for (let index = 0; index < this.queue.length && this.running < this.concurrency;) {
+      const queued = this.queue[index];
+      if (this.canStart(queued.key)) {
+        this.queue.splice(index, 1);
+        queued.start();
+      } else {
+        index++;
+      }
+    }
+  }
+}
@@ -1,54 +1,107 @@
 import WebSocket, { WebSocketServer } from 'ws';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { MCPHandlers } from './handlers.js';
-import { ProtocolManager } from './protocol.js';
+import { GeminiMCPCore, GeminiServerOptions, NotificationTarget } from './core.js';
+import { StreamableHttpTransport, MCP_ENDPOINT, isAllowedOrigin } from './streamableHttp.js';
+import { RATE_LIMITED_METHODS, RateLimitError, RateLimitOptions, RateLimiter, clientIdFor } from './rateLimit.js';
+import { TokenUsage } from './gemini/index.js';
+import { ServerMetrics } from './metrics.js';
+import { ProtocolManager, ProtocolStateError, PROTOCOL_VERSION, SERVER_INFO, SUPPORTED_PROTOCOL_VERSIONS } from './protocol.js';
 import { ERROR_CODES } from './protocol.js';
-import { MCPRequest, NotificationMessage, ConnectionState } from './types.js';
+import { MCPRequest, MCPResponse, NotificationMessage, ConnectionState } from './types.js';
 import http from 'http';
 
+// Messages queue in the connection's outbox while this much is still buffered on the socket
+const SEND_HIGH_WATER_MARK = 1024 * 1024;
+const FLUSH_RETRY_MS = 20;
+
+export interface ListenOptions {
+  // Interface to listen on; binding to others exposes every tool to the network
+  host?: string;
+  // Web origins allowed besides loopback ones, for both /mcp and WebSocket upgrades
+  allowedOrigins?: string[];
+}
+
 export class MCPServer {
   private wss: WebSocketServer;
-  private protocol: ProtocolManager;
-  private handlers: MCPHandlers;
+  private core: GeminiMCPCore;
+  private streamableHttp: StreamableHttpTransport;
   private clients: Map<WebSocket, ConnectionState>;
+  private rateLimiter: RateLimiter;
+  private metrics: ServerMetrics;
   private httpServer: http.Server;
   private startTime: Date;
 
-  constructor(apiKey: string, port: number = 3005) {
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const model = genAI.getGenerativeModel({ model: 'gemini-pro' });
-
-    this.protocol = new ProtocolManager();
-    this.handlers = new MCPHandlers(model, this.protocol);
+  constructor(
+    apiKey: string,
+    port: number = 3005,
+    options: GeminiServerOptions = {},
+    rateLimits: RateLimitOptions = {},
+    { host = 'localhost', allowedOrigins = [] }: ListenOptions = {}
+  ) {
+    this.core = new GeminiMCPCore(apiKey, options);
+    this.metrics = new ServerMetrics(options.usage?.prices);
+    this.rateLimiter = new RateLimiter(rateLimits);
+    this.core.on('notification', (notification: NotificationMessage, target?: NotificationTarget) => {
+      if (target) {
+        this.sendToClient(target, notification);
+      } else {
+        this.broadcast(notification);
+      }
+    });
+    this.core.on('stream', this.sendStreamFrame.bind(this));
+    this.core.on('usage', this.recordUsage.bind(this));
+    this.core.on('request', this.metrics.recordRequest.bind(this.metrics));
+    this.core.on('gemini', this.metrics.recordGeminiCall.bind(this.metrics));
+    this.core.on('cache', this.metrics.recordCache.bind(this.metrics));
+    this.streamableHttp = new StreamableHttpTransport(this.core, {
+      rateLimiter: this.rateLimiter,
+      allowedOrigins,
+      onRateLimited: error => this.metrics.recordRateLimit(error)
+    });
     this.clients = new Map();
     this.startTime = new Date();
 
-    // Create HTTP server for health check endpoint
+    // Create HTTP server for the health check, metrics and Streamable HTTP endpoints
     this.httpServer = http.createServer(this.handleHttpRequest.bind(this));
     
     // Create WebSocket server attached to HTTP server
-    this.wss = new WebSocketServer({ server: this.httpServer });
+    this.wss = new WebSocketServer({
+      server: this.httpServer,
+      // Browsers send an Origin on upgrades too, so pages can't use DNS rebinding here either
+      verifyClient: ({ origin }: { origin?: string }) => isAllowedOrigin(origin, allowedOrigins)
+    });
     
     this.setupWebSocketServer();
     
     // Start the server
-    this.httpServer.listen(port, () => {
-      console.log(`MCP Server started on port ${port}`);
+    this.httpServer.listen(port, host, () => {
+      console.log(`MCP Server started on ${host}:${port}`);
     });
   }
 
   private handleHttpRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
-    if (req.url === '/health') {
+    const pathname = new URL(req.url || '/', 'http://localhost').pathname;
+    if (pathname === MCP_ENDPOINT) {
+      this.streamableHttp.handle(req, res);
+    } else if (req.url === '/health') {
       const uptime = (new Date().getTime() - this.startTime.getTime()) / 1000; // in seconds
       const status = {
         status: 'healthy',
         uptime: uptime,
         activeConnections: this.clients.size,
-        version: '1.0.0'
+        httpSessions: this.streamableHttp.sessionCount,
+        version: SERVER_INFO.version
       };
       
       res.writeHead(200, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify(status));
+    } else if (pathname === '/metrics') {
+      res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+      res.end(this.metrics.render({
+        uptimeSeconds: (Date.now() - this.startTime.getTime()) / 1000,
+        websocketConnections: this.clients.size,
+        httpSessions: this.streamableHttp.sessionCount,
+        inFlightRequests: this.core.inFlightRequestCount
+      }));
     } else {
       res.writeHead(404);
       res.end();
@@ -72,43 +125,28 @@ export class MCPServer {
     const state: ConnectionState = {
       connectedAt: new Date(),
       lastMessageAt: new Date(),
-      initialized: false,
+      protocol: new ProtocolManager(),
       activeRequests: new Set(),
-      ip: req.socket.remoteAddress || 'unknown'
+      ip: req.socket.remoteAddress || 'unknown',
+      rateBudget: this.rateLimiter.createConnectionBudget(),
+      outbox: []
     };
     
     this.clients.set(ws, state);
 
     ws.on('message', async (data: WebSocket.RawData) => {
       try {
-        const message = data.toString();
-        const request: MCPRequest = JSON.parse(message);
+        const message: MCPRequest | MCPRequest[] = JSON.parse(data.toString());
 
         // Update last message timestamp
         state.lastMessageAt = new Date();
-        
-        // Add request to active requests
-        state.activeRequests.add(request.id);
-
-        // Validate protocol state
-        try {
-          this.protocol.validateState(request.method);
-          
-          // Mark as initialized if this is an initialize request
-          if (request.method === 'initialize') {
-            state.initialized = true;
-          }
-        } catch (error) {
-          this.sendError(ws, request.id, ERROR_CODES.SERVER_NOT_INITIALIZED, (error as Error).message);
-          return;
-        }
-
-        const response = await this.handlers.handleRequest(request);
-        ws.send(JSON.stringify(response));
-
-        // Remove request from active requests
-        state.activeRequests.delete(request.id);
 
+        // Every request of a batch goes through the same checks as a single one
+        const response = await this.core.handleMessage(message, state.protocol, request => this.handleWebSocketRequest(ws, state, request));
+        // Notifications don't get a response
+        if (response !== null) {
+          this.send(ws, response);
+        }
       } catch (error) {
         this.handleError(ws, error);
       }
@@ -122,24 +160,97 @@ export class MCPServer {
     ws.on('close', () => {
       // Cleanup connection state
       this.clients.delete(ws);
+      clearTimeout(state.flushTimer);
+      state.outbox.length = 0;
       
       // Cancel any pending requests
       if (state.activeRequests.size > 0) {
         state.activeRequests.forEach(requestId => {
-          this.handlers.cancelRequest(requestId);
+          this.core.cancelRequest(requestId, state.protocol);
         });
       }
     });
 
     // Send initial connection success message
-    ws.send(JSON.stringify({
+    this.send(ws, {
       jsonrpc: '2.0',
       method: 'connection/established',
       params: {
-        serverVersion: '1.0.0',
-        protocolVersion: '2024-11-05'
+        serverVersion: SERVER_INFO.version,
+        protocolVersion: PROTOCOL_VERSION,
+        supportedProtocolVersions: SUPPORTED_PROTOCOL_VERSIONS
+      }
+    });
+  }
+
+  /**
+   * Runs one request of a connection, on its own or as part of a batch,
+   * through the lifecycle and rate limit checks before the core sees it.
+   */
+  private async handleWebSocketRequest(ws: WebSocket, state: ConnectionState, request: MCPRequest): Promise<MCPResponse | null> {
+    // Validate this connection's lifecycle state
+    try {
+      state.protocol.validateState(request.method);
+    } catch (error) {
+      return request.id !== undefined
+        ? this.errorResponse(request.id, (error as ProtocolStateError).code, (error as Error).message)
+        : null;
+    }
+
+    const lifecycleResponse = this.handleLifecycleMessage(ws, state, request);
+    if (lifecycleResponse !== false) {
+      return lifecycleResponse;
+    }
+
+    if (RATE_LIMITED_METHODS.includes(request.method)) {
+      try {
+        this.rateLimiter.check(state.rateBudget, this.clientId(state));
+      } catch (error) {
+        if (!(error instanceof RateLimitError)) {
+          throw error;
+        }
+        this.metrics.recordRateLimit(error);
+        return this.errorResponse(request.id, error.code, error.message, error.data);
       }
-    }));
+    }
+
+    // Add request to active requests
+    if (request.id !== undefined) {
+      state.activeRequests.add(request.id);
+    }
+
+    const response = await this.core.handleRequest(request, state.protocol);
+
+    // Remove request from active requests; a started stream stays active until its final frame
+    if (!(request.method === 'stream' && response?.result?.started)) {
+      state.activeRequests.delete(request.id);
+    }
+    return response;
+  }
+
+  /**
+   * Handles the messages that move a connection through its lifecycle and
+   * returns what to answer, null for nothing. Returns false for everything
+   * else, which goes to the core.
+   */
+  private handleLifecycleMessage(ws: WebSocket, state: ConnectionState, request: MCPRequest): MCPResponse | null | false {
+    switch (request.method) {
+      case 'notifications/initialized':
+        state.protocol.markAsInitialized();
+        return null;
+
+      case 'shutdown':
+        state.protocol.requestShutdown();
+        state.activeRequests.forEach(requestId => this.core.cancelRequest(requestId, state.protocol));
+        return { jsonrpc: '2.0', id: request.id, result: {} };
+
+      case 'exit':
+        ws.close(1000, 'Client exited');
+        return null;
+
+      default:
+        return false;
+    }
   }
 
   private handleError(ws: WebSocket, error: any): void {
@@ -160,12 +271,62 @@ export class MCPServer {
     this.logError('server', error);
   }
 
-  private sendError(ws: WebSocket, id: string | number | null, code: number, message: string): void {
-    ws.send(JSON.stringify({
+  private sendError(ws: WebSocket, id: string | number | null, code: number, message: string, data?: any): void {
+    this.send(ws, this.errorResponse(id, code, message, data));
+  }
+
+  private errorResponse(id: string | number | null, code: number, message: string, data?: any): MCPResponse {
+    return {
       jsonrpc: '2.0',
       id,
-      error: { code, message }
-    }));
+      error: { code, message, ...(data !== undefined && { data }) }
+    };
+  }
+
+  private clientId(state: ConnectionState): string {
+    return clientIdFor(state.protocol.clientInfo?.name, state.ip);
+  }
+
+  // Charges the tokens a request used to the budgets of the connection that sent it
+  private recordUsage(usage: TokenUsage, target: NotificationTarget): void {
+    this.metrics.recordUsage(usage);
+    this.clients.forEach(state => {
+      if (state.protocol === target.protocol) {
+        this.rateLimiter.recordTokens(state.rateBudget, this.clientId(state), usage.totalTokens);
+      }
+    });
+  }
+
+  /**
+   * Queues a message behind anything still waiting for this connection, so
+   * responses, notifications and stream chunks go out in the order they
+   * were produced, then writes as much as the socket will take.
+   */
+  private send(ws: WebSocket, message: MCPResponse | MCPResponse[] | NotificationMessage): void {
+    const state = this.clients.get(ws);
+    if (!state) {
+      return;
+    }
+    state.outbox.push(JSON.stringify(message));
+    this.flush(ws, state);
+  }
+
+  private flush(ws: WebSocket, state: ConnectionState): void {
+    // A retry is already scheduled and will pick up the new message
+    if (state.flushTimer) {
+      return;
+    }
+    while (state.outbox.length > 0 && ws.readyState === WebSocket.OPEN) {
+      // Let a slow client drain its buffer instead of growing it without bound
+      if (ws.bufferedAmount >= SEND_HIGH_WATER_MARK) {
+        state.flushTimer = setTimeout(() => {
+          state.flushTimer = undefined;
+          this.flush(ws, state);
+        }, FLUSH_RETRY_MS);
+        return;
+      }
+      ws.send(state.outbox.shift() as string);
+    }
   }
 
   private monitorConnections(): void {
@@ -178,6 +339,8 @@ export class MCPServer {
         ws.close(1000, 'Connection timeout');
       }
     });
+    this.streamableHttp.expireIdleSessions(300000);
+    this.rateLimiter.prune();
   }
 
   private logError(type: string, error: Error, state?: ConnectionState): void {
@@ -193,7 +356,9 @@ export class MCPServer {
         ip: state.ip,
         connectedAt: state.connectedAt,
         lastMessageAt: state.lastMessageAt,
-        initialized: state.initialized,
+        phase: state.protocol.lifecyclePhase,
+        protocolVersion: state.protocol.version,
+        clientInfo: state.protocol.clientInfo,
         activeRequests: Array.from(state.activeRequests)
       } : undefined
     };
@@ -201,18 +366,38 @@ export class MCPServer {
     console.error('Error Log:', JSON.stringify(errorLog, null, 2));
   }
 
+  // Delivers a request-specific notification, such as progress, to the connection that sent the request
+  private sendToClient(target: NotificationTarget, notification: NotificationMessage): void {
+    this.clients.forEach((state, client) => {
+      if (state.protocol === target.protocol) {
+        this.send(client, notification);
+      }
+    });
+  }
+
+  // Delivers a chunk of a legacy stream to the connection that started it
+  private sendStreamFrame(frame: MCPResponse, target: NotificationTarget): void {
+    this.clients.forEach((state, client) => {
+      if (state.protocol !== target.protocol) {
+        return;
+      }
+      if (frame.error || frame.result?.done) {
+        state.activeRequests.delete(target.requestId);
+      }
+      this.send(client, frame);
+    });
+  }
+
   broadcast(notification: NotificationMessage): void {
-    const message = JSON.stringify(notification);
     this.clients.forEach((state, client) => {
-      if (client.readyState === WebSocket.OPEN) {
-        client.send(message);
+      // Clients only hear from the server once they have initialized
+      if (state.protocol.isInitialized()) {
+        this.send(client, notification);
       }
     });
   }
 
   async shutdown(): Promise<void> {
-    this.protocol.requestShutdown();
-
     // Notify all clients
     this.broadcast({
       jsonrpc: '2.0',
@@ -225,12 +410,14 @@ export class MCPServer {
 
     // Close all connections
     this.clients.forEach((state, client) => {
+      state.protocol.requestShutdown();
       // Cancel any pending requests
       state.activeRequests.forEach(requestId => {
-        this.handlers.cancelRequest(requestId);
+        this.core.cancelRequest(requestId, state.protocol);
       });
       client.close();
     });
+    this.streamableHttp.close();
     
     // Close servers
     await Promise.all([
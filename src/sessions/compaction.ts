@@ -0,0 +1,55 @@
+import { ChatMessage, ChatSessionRecord } from './types.js';
+import { estimateTokens } from './history.js';
+
+export interface CompactionOptions {
+  // Compact once the estimated context size exceeds this many tokens
+  thresholdTokens: number;
+  // Most recent turns that are always kept verbatim
+  keepTurns?: number;
+}
+
+export const DEFAULT_KEEP_TURNS = 4;
+
+export const SUMMARY_REQUEST = 'Please provide a concise summary of our conversation so far.';
+
+export const COMPACTION_REQUEST = 'Summarize our conversation so far, including any summary of earlier turns. ' +
+  'Keep every fact, decision and open question needed to continue the conversation.';
+
+/**
+ * Estimated context size of a session, including its rolling summary.
+ */
+export function estimateSessionTokens(session: ChatSessionRecord): number {
+  const summaryTokens = session.summary ? estimateTokens([{ role: 'user', parts: [{ text: session.summary }] }]) : 0;
+  return estimateTokens(session.history) + summaryTokens;
+}
+
+/**
+ * Splits a history into the turns to fold into the summary and the
+ * `keepTurns` most recent turns. `older` is empty when there is nothing to compact.
+ */
+export function splitForCompaction(history: ChatMessage[], keepTurns: number): { older: ChatMessage[]; recent: ChatMessage[] } {
+  let kept = 0;
+  let index = history.length;
+  while (index > 0 && kept < keepTurns) {
+    index--;
+    if (history[index].role === 'user') {
+      kept++;
+    }
+  }
+  // Never split a turn: the recent part must start with a user message
+  while (index > 0 && index < history.length && history[index].role !== 'user') {
+    index--;
+  }
+  return { older: history.slice(0, index), recent: history.slice(index) };
+}
+
+/**
+ * Combines the session's system prompt with its rolling summary.
+ */
+export function buildSystemInstruction(session: ChatSessionRecord): string | undefined {
+  if (!session.summary) {
+    return session.systemPrompt;
+  }
+  const summary = `Summary of the earlier part of this conversation:\n${session.summary}`;
+  return session.systemPrompt ? `${session.systemPrompt}\n\n${summary}` : summary;
+}
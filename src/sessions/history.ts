@@ -0,0 +1,42 @@
+import { ChatMessage } from './types.js';
+
+// Rough heuristics; use the countTokens API when an exact figure matters
+const CHARS_PER_TOKEN = 4;
+const TOKENS_PER_IMAGE = 258;
+
+/**
+ * Number of user turns (a user message and the model's reply) in a history.
+ */
+export function countTurns(history: ChatMessage[]): number {
+  return history.filter(message => message.role === 'user').length;
+}
+
+/**
+ * Estimates the number of tokens a history will consume as context.
+ */
+export function estimateTokens(history: ChatMessage[]): number {
+  let chars = 0;
+  let images = 0;
+  for (const message of history) {
+    for (const part of message.parts) {
+      if (part.text) chars += part.text.length;
+      if (part.inlineData) images++;
+    }
+  }
+  return Math.ceil(chars / CHARS_PER_TOKEN) + images * TOKENS_PER_IMAGE;
+}
+
+/**
+ * Returns the history without its last `turns` turns.
+ */
+export function rewindHistory(history: ChatMessage[], turns: number): ChatMessage[] {
+  let remaining = turns;
+  let index = history.length;
+  while (remaining > 0 && index > 0) {
+    index--;
+    if (history[index].role === 'user') {
+      remaining--;
+    }
+  }
+  return history.slice(0, index);
+}
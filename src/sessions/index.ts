@@ -0,0 +1,6 @@
+export * from './types.js';
+export * from './store.js';
+export * from './manager.js';
+export * from './transcript.js';
+export * from './history.js';
+export * from './compaction.js';
@@ -0,0 +1,177 @@
+import EventEmitter from 'events';
+import { ChatSessionRecord, SessionGenerationConfig, SessionStore } from './types.js';
+import { countTurns } from './history.js';
+import { splitForCompaction } from './compaction.js';
+
+export interface NewSessionOptions {
+  systemPrompt?: string;
+  model?: string;
+  generationConfig?: SessionGenerationConfig;
+}
+
+export interface SessionLimits {
+  // Sessions kept in memory; the least recently used are evicted beyond this
+  maxSessions?: number;
+  // Sessions unused for longer than this are evicted
+  idleTtlMs?: number;
+  // Oldest turns are dropped once a session exceeds this many turns
+  maxTurns?: number;
+}
+
+export interface SessionEviction {
+  sessionId: string;
+  reason: 'lru' | 'idle';
+  // True when the session was written to the store and can be resumed later
+  spilled: boolean;
+}
+
+interface SessionEntry {
+  record: ChatSessionRecord;
+  lastUsedAt: number;
+}
+
+/**
+ * In-memory view of chat sessions, optionally backed by a SessionStore.
+ * Sessions are loaded from the store lazily, the first time they are used.
+ * Memory is bounded by SessionLimits; evicted sessions are spilled to the
+ * store when there is one and dropped otherwise. Emits 'evicted' with a
+ * SessionEviction for each evicted session.
+ */
+export class ChatSessionManager extends EventEmitter {
+  // Insertion order doubles as LRU order: entries are re-inserted on use
+  private sessions: Map<string, SessionEntry> = new Map();
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor(private store?: SessionStore, private limits: SessionLimits = {}) {
+    super();
+    if (limits.idleTtlMs) {
+      this.sweepTimer = setInterval(() => {
+        this.evictIdle().catch(error => console.error('Failed to evict idle sessions:', error));
+      }, Math.min(limits.idleTtlMs, 60000));
+      this.sweepTimer.unref();
+    }
+  }
+
+  private touch(record: ChatSessionRecord): void {
+    this.sessions.delete(record.id);
+    this.sessions.set(record.id, { record, lastUsedAt: Date.now() });
+  }
+
+  async get(id: string): Promise<ChatSessionRecord | undefined> {
+    let record = this.sessions.get(id)?.record;
+    if (!record && this.store) {
+      record = await this.store.load(id);
+    }
+    if (record) {
+      this.touch(record);
+      await this.evictOverflow();
+    }
+    return record;
+  }
+
+  /**
+   * Looks a session up without counting it as used: it keeps its idle
+   * time and LRU position, and one loaded from the store is not kept in
+   * memory, so listing sessions never evicts any.
+   */
+  async peek(id: string): Promise<ChatSessionRecord | undefined> {
+    const record = this.sessions.get(id)?.record;
+    if (record || !this.store) {
+      return record;
+    }
+    return this.store.load(id);
+  }
+
+  create(id: string, options: NewSessionOptions = {}): ChatSessionRecord {
+    const now = new Date().toISOString();
+    const record: ChatSessionRecord = {
+      id,
+      history: [],
+      systemPrompt: options.systemPrompt,
+      model: options.model,
+      generationConfig: options.generationConfig,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.touch(record);
+    return record;
+  }
+
+  async save(record: ChatSessionRecord): Promise<void> {
+    const { maxTurns } = this.limits;
+    if (maxTurns && countTurns(record.history) > maxTurns) {
+      record.history = splitForCompaction(record.history, maxTurns).recent;
+    }
+
+    record.updatedAt = new Date().toISOString();
+    this.touch(record);
+    await this.persist(record);
+    await this.evictOverflow();
+  }
+
+  async delete(id: string): Promise<void> {
+    this.sessions.delete(id);
+    await this.store?.delete(id);
+  }
+
+  async ids(): Promise<string[]> {
+    const stored = this.store ? await this.store.list() : [];
+    return Array.from(new Set([...this.sessions.keys(), ...stored]));
+  }
+
+  // Number of sessions currently held in memory
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  async evictIdle(): Promise<void> {
+    const { idleTtlMs } = this.limits;
+    if (!idleTtlMs) {
+      return;
+    }
+    const cutoff = Date.now() - idleTtlMs;
+    for (const [id, entry] of Array.from(this.sessions)) {
+      if (entry.lastUsedAt < cutoff) {
+        await this.evict(id, 'idle');
+      }
+    }
+  }
+
+  dispose(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+    }
+  }
+
+  private async evictOverflow(): Promise<void> {
+    const { maxSessions } = this.limits;
+    while (maxSessions && this.sessions.size > maxSessions) {
+      const [leastRecent] = this.sessions.keys();
+      await this.evict(leastRecent, 'lru');
+    }
+  }
+
+  private async evict(id: string, reason: SessionEviction['reason']): Promise<void> {
+    const entry = this.sessions.get(id);
+    if (!entry) {
+      return;
+    }
+    this.sessions.delete(id);
+    const spilled = this.store ? await this.persist(entry.record) : false;
+    this.emit('evicted', { sessionId: id, reason, spilled } as SessionEviction);
+  }
+
+  private async persist(record: ChatSessionRecord): Promise<boolean> {
+    if (!this.store) {
+      return false;
+    }
+    try {
+      await this.store.save(record);
+      return true;
+    } catch (error) {
+      // The session stays usable in memory; it just won't survive a restart
+      console.error(`Failed to persist chat session ${record.id}:`, error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,109 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { ChatSessionRecord, SessionStore } from './types.js';
+
+/**
+ * Keeps sessions for the lifetime of the process only.
+ */
+export class MemorySessionStore implements SessionStore {
+  private records: Map<string, ChatSessionRecord> = new Map();
+
+  async load(id: string): Promise<ChatSessionRecord | undefined> {
+    const record = this.records.get(id);
+    return record && structuredClone(record);
+  }
+
+  async save(record: ChatSessionRecord): Promise<void> {
+    this.records.set(record.id, structuredClone(record));
+  }
+
+  async delete(id: string): Promise<void> {
+    this.records.delete(id);
+  }
+
+  async list(): Promise<string[]> {
+    return Array.from(this.records.keys());
+  }
+}
+
+/**
+ * Stores each session as `<dir>/<encoded id>.json`.
+ * Files are written to a temporary file and renamed into place, so a crash
+ * mid-write leaves the previous version intact rather than a truncated file.
+ */
+export class JsonFileSessionStore implements SessionStore {
+  private ready?: Promise<void>;
+
+  constructor(private dir: string) {}
+
+  private fileFor(id: string): string {
+    return path.join(this.dir, `${encodeURIComponent(id)}.json`);
+  }
+
+  private ensureDir(): Promise<void> {
+    if (!this.ready) {
+      this.ready = fs.mkdir(this.dir, { recursive: true }).then(() => undefined);
+    }
+    return this.ready;
+  }
+
+  async load(id: string): Promise<ChatSessionRecord | undefined> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.fileFor(id), 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+
+    try {
+      return JSON.parse(contents) as ChatSessionRecord;
+    } catch (error) {
+      console.error(`Ignoring unreadable session file ${this.fileFor(id)}: ${(error as Error).message}`);
+      return undefined;
+    }
+  }
+
+  async save(record: ChatSessionRecord): Promise<void> {
+    await this.ensureDir();
+    const file = this.fileFor(record.id);
+    const tmpFile = `${file}.${randomUUID()}.tmp`;
+
+    const handle = await fs.open(tmpFile, 'w');
+    try {
+      await handle.writeFile(JSON.stringify(record, null, 2));
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+
+    try {
+      await fs.rename(tmpFile, file);
+    } catch (error) {
+      await fs.rm(tmpFile, { force: true });
+      throw error;
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    await fs.rm(this.fileFor(id), { force: true });
+  }
+
+  async list(): Promise<string[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+    return files
+      .filter(file => file.endsWith('.json'))
+      .map(file => decodeURIComponent(file.slice(0, -'.json'.length)));
+  }
+}
@@ -0,0 +1,37 @@
+import { ChatMessage, ChatPart } from './types.js';
+
+export type TranscriptFormat = 'markdown' | 'json';
+
+function partToMarkdown(part: ChatPart): string {
+  if (part.text !== undefined) {
+    return part.text;
+  }
+  if (part.inlineData) {
+    return `_[${part.inlineData.mimeType} attachment]_`;
+  }
+  return '';
+}
+
+/**
+ * Renders a chat history as a markdown or JSON transcript.
+ * `summary` stands in for earlier turns that were compacted away.
+ */
+export function formatTranscript(
+  sessionId: string,
+  history: ChatMessage[],
+  format: TranscriptFormat = 'markdown',
+  summary?: string
+): string {
+  if (format === 'json') {
+    return JSON.stringify({ sessionId, ...(summary && { summary }), history }, null, 2);
+  }
+
+  const turns = history.map(message => {
+    const speaker = message.role === 'model' ? 'Gemini' : 'User';
+    return `**${speaker}:**\n\n${message.parts.map(partToMarkdown).join('\n\n')}`;
+  });
+
+  const earlier = summary ? [`_Summary of earlier turns:_\n\n${summary}`] : [];
+
+  return [`# Chat session: ${sessionId}`, ...earlier, ...turns].join('\n\n') + '\n';
+}
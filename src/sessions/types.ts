@@ -0,0 +1,43 @@
+export interface ChatPart {
+  text?: string;
+  inlineData?: { mimeType: string; data: string };
+}
+
+export interface ChatMessage {
+  role: 'user' | 'model';
+  parts: ChatPart[];
+}
+
+export interface SessionGenerationConfig {
+  temperature?: number;
+  maxOutputTokens?: number;
+  topP?: number;
+  topK?: number;
+  stopSequences?: string[];
+}
+
+/**
+ * Everything needed to resume a chat session, in a JSON-serializable form.
+ */
+export interface ChatSessionRecord {
+  id: string;
+  history: ChatMessage[];
+  systemPrompt?: string;
+  // Model override; the server default is used when unset
+  model?: string;
+  generationConfig?: SessionGenerationConfig;
+  // Rolling summary of turns removed by automatic compaction
+  summary?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Backend that persists chat sessions between server runs.
+ */
+export interface SessionStore {
+  load(id: string): Promise<ChatSessionRecord | undefined>;
+  save(record: ChatSessionRecord): Promise<void>;
+  delete(id: string): Promise<void>;
+  list(): Promise<string[]>;
+}
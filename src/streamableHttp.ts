@@ -0,0 +1,387 @@
+import http from 'http';
+import { randomUUID } from 'crypto';
+import { GeminiMCPCore, NotificationTarget } from './core.js';
+import { ERROR_CODES, ProtocolManager, SUPPORTED_PROTOCOL_VERSIONS } from './protocol.js';
+import { RATE_LIMITED_METHODS, RateBudget, RateLimitError, RateLimiter, clientIdFor } from './rateLimit.js';
+import { TokenUsage } from './gemini/index.js';
+import { MCPRequest, MCPResponse, NotificationMessage } from './types.js';
+
+export const MCP_ENDPOINT = '/mcp';
+export const SESSION_HEADER = 'mcp-session-id';
+export const PROTOCOL_VERSION_HEADER = 'mcp-protocol-version';
+
+// Large enough for base64 image arguments
+const MAX_BODY_BYTES = 32 * 1024 * 1024;
+const KEEPALIVE_INTERVAL_MS = 30000;
+
+// Browsers on this machine; any other page could reach a local server through DNS rebinding
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * Whether a request with this Origin header may use the server. Requests
+ * without one don't come from a web page and are allowed.
+ */
+export function isAllowedOrigin(origin: string | undefined, allowedOrigins: string[] = []): boolean {
+  if (origin === undefined || allowedOrigins.includes(origin)) {
+    return true;
+  }
+  try {
+    return LOOPBACK_HOSTS.includes(new URL(origin).hostname);
+  } catch {
+    return false;
+  }
+}
+
+export interface StreamableHttpOptions {
+  // Always answer POSTs with a single JSON body, even when the client accepts SSE
+  jsonResponse?: boolean;
+  // Web origins allowed besides loopback ones, e.g. https://app.example.com
+  allowedOrigins?: string[];
+  // Usually shared with the server's other transports; without one nothing is limited
+  rateLimiter?: RateLimiter;
+  // Called for every request the rate limiter rejects
+  onRateLimited?: (error: RateLimitError) => void;
+}
+
+interface HttpSession {
+  id: string;
+  createdAt: Date;
+  lastSeenAt: Date;
+  // Version negotiated by this session's initialize request
+  protocol: ProtocolManager;
+  // Open GET streams receiving server-to-client notifications
+  streams: Set<http.ServerResponse>;
+  // SSE responses of POSTs still in progress, by request id
+  requestStreams: Map<string | number, http.ServerResponse>;
+  // Address of the client that initialized the session
+  ip: string;
+  // Plays the part of a connection budget, since each POST is a new connection
+  rateBudget?: RateBudget;
+}
+
+class HttpError extends Error {
+  constructor(public status: number, public code: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * MCP Streamable HTTP transport: clients POST JSON-RPC messages to a single
+ * endpoint and receive JSON or an SSE stream back; GET opens an SSE stream
+ * for server-to-client notifications and DELETE ends the session.
+ */
+export class StreamableHttpTransport {
+  private sessions: Map<string, HttpSession> = new Map();
+  private keepAliveTimer: NodeJS.Timeout;
+
+  constructor(private core: GeminiMCPCore, private options: StreamableHttpOptions = {}) {
+    this.core.on('notification', (notification: NotificationMessage, target?: NotificationTarget) => {
+      if (target) {
+        this.sendToSession(target, notification);
+      } else {
+        this.broadcast(notification);
+      }
+    });
+    // Legacy stream chunks outlive their POST, so they arrive on the GET streams
+    this.core.on('stream', (frame: MCPResponse, target: NotificationTarget) => this.sendToSession(target, frame));
+    this.core.on('usage', (usage: TokenUsage, target: NotificationTarget) => this.recordUsage(usage, target));
+
+    // Comments keep idle SSE streams from being closed by proxies
+    this.keepAliveTimer = setInterval(() => {
+      this.sessions.forEach(session => session.streams.forEach(stream => stream.write(': keepalive\n\n')));
+    }, KEEPALIVE_INTERVAL_MS);
+    this.keepAliveTimer.unref();
+  }
+
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    try {
+      if (!isAllowedOrigin(req.headers.origin, this.options.allowedOrigins)) {
+        throw new HttpError(403, ERROR_CODES.INVALID_REQUEST, `Origin not allowed: ${req.headers.origin}`);
+      }
+      switch (req.method) {
+        case 'POST':
+          return await this.handlePost(req, res);
+        case 'GET':
+          return this.handleGet(req, res);
+        case 'DELETE':
+          return this.handleDelete(req, res);
+        default:
+          res.writeHead(405, { Allow: 'GET, POST, DELETE' });
+          res.end();
+      }
+    } catch (error) {
+      if (error instanceof HttpError) {
+        this.sendHttpError(res, error.status, error.code, error.message);
+      } else {
+        console.error('Streamable HTTP error:', error);
+        this.sendHttpError(res, 500, ERROR_CODES.INTERNAL_ERROR, 'Internal server error');
+      }
+    }
+  }
+
+  private async handlePost(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const accept = req.headers.accept || '';
+    const acceptsJson = accept.includes('application/json') || accept.includes('*/*');
+    const acceptsSse = accept.includes('text/event-stream');
+    if (!acceptsJson && !acceptsSse) {
+      throw new HttpError(406, ERROR_CODES.INVALID_REQUEST, 'Client must accept application/json or text/event-stream');
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(await this.readBody(req));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        throw error;
+      }
+      throw new HttpError(400, ERROR_CODES.PARSE_ERROR, 'Parse error');
+    }
+
+    const isBatch = Array.isArray(body);
+    const messages = (isBatch ? body : [body]) as MCPRequest[];
+    if (messages.length === 0 || messages.some(message => !message || typeof message !== 'object' || message.jsonrpc !== '2.0')) {
+      throw new HttpError(400, ERROR_CODES.INVALID_REQUEST, 'Invalid JSON-RPC message');
+    }
+
+    const isInitialize = messages.some(message => message.method === 'initialize');
+    if (isInitialize && messages.length > 1) {
+      throw new HttpError(400, ERROR_CODES.INVALID_REQUEST, 'initialize must not be batched');
+    }
+
+    const session = isInitialize ? this.createSession(req) : this.requireSession(req);
+    if (isBatch && !session.protocol.features.batching) {
+      throw new HttpError(400, ERROR_CODES.INVALID_REQUEST, `Batch requests are not supported in protocol version ${session.protocol.version}`);
+    }
+    const headers: http.OutgoingHttpHeaders = { 'Mcp-Session-Id': session.id };
+
+    // Client responses and notifications are acknowledged without a body
+    const requests = messages.filter(message => message.method !== undefined && message.id !== undefined);
+    if (requests.length === 0) {
+      await Promise.all(messages.map(message => this.dispatch(session, message)));
+      res.writeHead(202, headers);
+      res.end();
+      return;
+    }
+
+    // Abort the requests if the client goes away before they complete
+    const cancelOnClose = () => {
+      if (!res.writableEnded) {
+        requests.forEach(request => this.core.cancelRequest(request.id, session.protocol));
+      }
+    };
+    res.on('close', cancelOnClose);
+
+    if (acceptsSse && !(this.options.jsonResponse && acceptsJson)) {
+      res.writeHead(200, { ...headers, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+      // Notifications about these requests, such as progress, go out on this stream
+      requests.forEach(request => session.requestStreams.set(request.id, res));
+      try {
+        await Promise.all(messages.map(async message => {
+          const response = await this.dispatch(session, message);
+          if (response && !res.writableEnded) {
+            this.writeEvent(res, response);
+          }
+        }));
+      } finally {
+        requests.forEach(request => session.requestStreams.delete(request.id));
+      }
+      res.end();
+      return;
+    }
+
+    const responses = (await Promise.all(messages.map(message => this.dispatch(session, message))))
+      .filter((response): response is MCPResponse => response !== null);
+    // Everything was cancelled, so there is nothing to return
+    if (responses.length === 0) {
+      res.writeHead(202, headers);
+      res.end();
+      return;
+    }
+    res.writeHead(200, { ...headers, 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(isBatch ? responses : responses[0]));
+  }
+
+  private handleGet(req: http.IncomingMessage, res: http.ServerResponse): void {
+    if (!(req.headers.accept || '').includes('text/event-stream')) {
+      res.writeHead(405, { Allow: 'POST, DELETE' });
+      res.end();
+      return;
+    }
+
+    const session = this.requireSession(req);
+    res.writeHead(200, {
+      'Mcp-Session-Id': session.id,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive'
+    });
+    res.write(': connected\n\n');
+
+    session.streams.add(res);
+    res.on('close', () => session.streams.delete(res));
+  }
+
+  private handleDelete(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const session = this.requireSession(req);
+    this.closeSession(session);
+    res.writeHead(204);
+    res.end();
+  }
+
+  private async dispatch(session: HttpSession, message: MCPRequest): Promise<MCPResponse | null> {
+    // Responses to server-initiated requests carry no method
+    if (message.method === undefined) {
+      return null;
+    }
+    const rateLimiter = this.options.rateLimiter;
+    if (rateLimiter && session.rateBudget && RATE_LIMITED_METHODS.includes(message.method)) {
+      try {
+        rateLimiter.check(session.rateBudget, this.clientId(session));
+      } catch (error) {
+        if (!(error instanceof RateLimitError)) {
+          throw error;
+        }
+        this.options.onRateLimited?.(error);
+        return { jsonrpc: '2.0', id: message.id, error: { code: error.code, message: error.message, data: error.data } };
+      }
+    }
+    try {
+      return await this.core.handleRequest(message, session.protocol);
+    } catch (error) {
+      return {
+        jsonrpc: '2.0',
+        id: message.id,
+        error: {
+          code: ERROR_CODES.INTERNAL_ERROR,
+          message: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+        }
+      };
+    }
+  }
+
+  private createSession(req: http.IncomingMessage): HttpSession {
+    const now = new Date();
+    const session: HttpSession = {
+      id: randomUUID(),
+      createdAt: now,
+      lastSeenAt: now,
+      protocol: new ProtocolManager(),
+      streams: new Set(),
+      requestStreams: new Map(),
+      ip: req.socket.remoteAddress || 'unknown',
+      rateBudget: this.options.rateLimiter?.createConnectionBudget()
+    };
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  private requireSession(req: http.IncomingMessage): HttpSession {
+    const sessionId = req.headers[SESSION_HEADER];
+    if (typeof sessionId !== 'string' || !sessionId) {
+      throw new HttpError(400, ERROR_CODES.INVALID_REQUEST, 'Missing Mcp-Session-Id header');
+    }
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new HttpError(404, ERROR_CODES.INVALID_REQUEST, `Unknown session: ${sessionId}`);
+    }
+    // Clients on 2025-06-18 and later repeat the negotiated version on every request
+    const protocolVersion = req.headers[PROTOCOL_VERSION_HEADER];
+    if (protocolVersion !== undefined && protocolVersion !== session.protocol.version) {
+      const reason = SUPPORTED_PROTOCOL_VERSIONS.includes(protocolVersion as string) ? 'does not match the negotiated version' : 'is not supported';
+      throw new HttpError(400, ERROR_CODES.INVALID_REQUEST, `Protocol version ${protocolVersion} ${reason}`);
+    }
+    session.lastSeenAt = new Date();
+    return session;
+  }
+
+  private clientId(session: HttpSession): string {
+    return clientIdFor(session.protocol.clientInfo?.name, session.ip);
+  }
+
+  // Charges the tokens a request used to the budgets of the session that sent it
+  private recordUsage(usage: TokenUsage, target: NotificationTarget): void {
+    const rateLimiter = this.options.rateLimiter;
+    this.sessions.forEach(session => {
+      if (rateLimiter && session.rateBudget && session.protocol === target.protocol) {
+        rateLimiter.recordTokens(session.rateBudget, this.clientId(session), usage.totalTokens);
+      }
+    });
+  }
+
+  private closeSession(session: HttpSession): void {
+    session.streams.forEach(stream => stream.end());
+    this.sessions.delete(session.id);
+  }
+
+  /**
+   * Ends sessions with no open streams that have not been used for `maxIdleMs`.
+   */
+  expireIdleSessions(maxIdleMs: number): void {
+    const cutoff = Date.now() - maxIdleMs;
+    this.sessions.forEach(session => {
+      if (session.streams.size === 0 && session.lastSeenAt.getTime() < cutoff) {
+        this.closeSession(session);
+      }
+    });
+  }
+
+  // Prefers the SSE stream of the POST that carried the request, falling back to the session's GET streams
+  private sendToSession(target: NotificationTarget, notification: MCPResponse | NotificationMessage): void {
+    this.sessions.forEach(session => {
+      if (session.protocol !== target.protocol) {
+        return;
+      }
+      const requestStream = session.requestStreams.get(target.requestId);
+      if (requestStream && !requestStream.writableEnded) {
+        this.writeEvent(requestStream, notification);
+      } else {
+        session.streams.forEach(stream => this.writeEvent(stream, notification));
+      }
+    });
+  }
+
+  broadcast(notification: NotificationMessage): void {
+    this.sessions.forEach(session => session.streams.forEach(stream => this.writeEvent(stream, notification)));
+  }
+
+  close(): void {
+    clearInterval(this.keepAliveTimer);
+    this.sessions.forEach(session => this.closeSession(session));
+  }
+
+  private writeEvent(res: http.ServerResponse, message: MCPResponse | NotificationMessage): void {
+    res.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+  }
+
+  private sendHttpError(res: http.ServerResponse, status: number, code: number, message: string): void {
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ jsonrpc: '2.0', id: null, error: { code, message } }));
+  }
+
+  private readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        // Keep draining so the 413 response can still be delivered
+        if (size > MAX_BODY_BYTES) {
+          chunks.length = 0;
+          reject(new HttpError(413, ERROR_CODES.INVALID_REQUEST, 'Request body too large'));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+      req.on('error', reject);
+    });
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * Splits text into chunks of at most `maxChars`, preferring paragraph, then
+ * line, then sentence boundaries. Only text without any such boundary is cut
+ * mid-word.
+ */
+export function splitIntoChunks(text: string, maxChars: number): string[] {
+  const chunks: string[] = [];
+  let rest = text;
+  while (rest.length > maxChars) {
+    const window = rest.slice(0, maxChars);
+    const boundary = [window.lastIndexOf('\n\n'), window.lastIndexOf('\n'), window.lastIndexOf('. ')]
+      .find(index => index > maxChars / 2);
+    const end = boundary !== undefined ? boundary + 1 : maxChars;
+    chunks.push(rest.slice(0, end).trim());
+    rest = rest.slice(end);
+  }
+  if (rest.trim()) {
+    chunks.push(rest.trim());
+  }
+  return chunks;
+}
@@ -0,0 +1,75 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ERROR_CODES } from '../protocol.js';
+
+/**
+ * Which files a client may name in tool arguments. Local clients (stdio)
+ * run as the user and may use any path; network clients only paths inside
+ * `dir`, and none at all without one.
+ */
+export interface FileAccess {
+  local: boolean;
+  dir?: string;
+}
+
+/**
+ * Raised for file paths the calling client may not use.
+ */
+export class FileAccessError extends Error {
+  code = ERROR_CODES.INVALID_PARAMS;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'FileAccessError';
+  }
+}
+
+// Resolves `filePath` against the files directory and checks that the real path stays inside it
+async function resolveInDir(filePath: string, dir: string, realTarget: (resolved: string) => Promise<string>): Promise<string> {
+  const root = await fs.realpath(dir);
+  const resolved = path.resolve(root, filePath);
+  const real = await realTarget(resolved);
+  const relative = path.relative(root, real);
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new FileAccessError(`Path is outside the files directory: ${filePath}`);
+  }
+  return real;
+}
+
+function checkAccess(filePath: string, access: FileAccess = { local: false }): string | undefined {
+  if (access.local) {
+    return undefined;
+  }
+  if (!access.dir) {
+    throw new FileAccessError(`File paths are not available over this transport; pass the contents inline instead of ${filePath}`);
+  }
+  return access.dir;
+}
+
+/**
+ * Returns the path to read `filePath` from, or throws a FileAccessError.
+ * Symbolic links are followed before the check.
+ */
+export async function resolveReadPath(filePath: string, access?: FileAccess): Promise<string> {
+  const dir = checkAccess(filePath, access);
+  return dir ? resolveInDir(filePath, dir, resolved => fs.realpath(resolved)) : filePath;
+}
+
+/**
+ * Returns the path to write `filePath` to, or throws a FileAccessError.
+ * Network clients can't write through a symbolic link.
+ */
+export async function resolveWritePath(filePath: string, access?: FileAccess): Promise<string> {
+  const dir = checkAccess(filePath, access);
+  if (!dir) {
+    return filePath;
+  }
+  return resolveInDir(filePath, dir, async resolved => {
+    const target = path.join(await fs.realpath(path.dirname(resolved)), path.basename(resolved));
+    const stats = await fs.lstat(target).catch(() => undefined);
+    if (stats?.isSymbolicLink()) {
+      throw new FileAccessError(`Refusing to write through a symbolic link: ${filePath}`);
+    }
+    return target;
+  });
+}
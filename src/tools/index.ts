@@ -0,0 +1,4 @@
+export * from './registry.js';
+export * from './validation.js';
+export * from './chunking.js';
+export * from './files.js';
@@ -0,0 +1,140 @@
+import { MCPResponse } from '../types.js';
+import type { TokenUsage } from '../gemini/usage.js';
+import type { CacheStatus } from '../cache/types.js';
+import type { UsageSource } from '../usage/types.js';
+import { ERROR_CODES } from '../protocol.js';
+import type { FileAccess } from './files.js';
+import { JSONSchema, applyDefaults, validateArguments } from './validation.js';
+
+// Sends notifications/progress; `progress` must increase with every call
+export type ProgressReporter = (progress: number, total?: number, message?: string) => void;
+
+/**
+ * Per-call state handed to tool handlers.
+ */
+export interface ToolContext {
+  // Aborted when the client cancels the request or disconnects
+  signal: AbortSignal;
+  // Present when the client asked for progress with _meta.progressToken
+  reportProgress?: ProgressReporter;
+  // Delivers partial output to the calling client for tools that stream it
+  sendPartialText?: (text: string) => void;
+  // Called with the tokens spent on each Gemini call the tool makes, and the model it was made with
+  reportUsage?: (usage: TokenUsage, source: UsageSource) => void;
+  // Called with whether each Gemini call was answered from the response cache
+  reportCache?: (status: CacheStatus) => void;
+  // Sends a warning-level notifications/message to the calling client
+  warn?: (logger: string, data: unknown) => void;
+  // Files the client may name in arguments; none when unset
+  files?: FileAccess;
+  // Makes the calling client the one told when the chat session is evicted
+  claimSession?: (sessionId: string) => void;
+}
+
+export type ToolHandler = (id: string | number, args: any, context: ToolContext) => Promise<MCPResponse>;
+
+/**
+ * Behavioral hints for clients; advertised from protocol version 2025-03-26.
+ */
+export interface ToolAnnotations {
+  title?: string;
+  // The tool does not modify any state
+  readOnlyHint?: boolean;
+  // Modifications may discard existing data
+  destructiveHint?: boolean;
+  // Repeating a call with the same arguments has no further effect
+  idempotentHint?: boolean;
+  // The tool talks to external systems such as the Gemini API
+  openWorldHint?: boolean;
+}
+
+/**
+ * Tool as advertised by tools/list.
+ */
+export interface Tool {
+  name: string;
+  description: string;
+  inputSchema: JSONSchema;
+  annotations?: ToolAnnotations;
+  // Shape of the result's structuredContent; advertised from 2025-06-18
+  outputSchema?: JSONSchema;
+}
+
+/**
+ * A tool together with the handler that executes it.
+ */
+export interface ToolDefinition extends Tool {
+  handler: ToolHandler;
+}
+
+/**
+ * Single source of truth for the tools a server exposes.
+ * Drives both tools/list and tools/call, validating arguments before dispatch.
+ */
+export class ToolRegistry {
+  private tools: Map<string, ToolDefinition> = new Map();
+
+  register(tool: ToolDefinition): void {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool already registered: ${tool.name}`);
+    }
+    this.tools.set(tool.name, tool);
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  list(): Tool[] {
+    return Array.from(this.tools.values()).map(({ name, description, inputSchema, annotations, outputSchema }) => ({
+      name,
+      description,
+      inputSchema,
+      ...(annotations && { annotations }),
+      ...(outputSchema && { outputSchema })
+    }));
+  }
+
+  async call(
+    id: string | number,
+    name: string,
+    args: any = {},
+    context: ToolContext = { signal: new AbortController().signal }
+  ): Promise<MCPResponse> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      return {
+        jsonrpc: '2.0',
+        id,
+        error: {
+          code: ERROR_CODES.INVALID_PARAMS,
+          message: `Unknown tool: ${name}`
+        }
+      };
+    }
+
+    const normalizedArgs = applyDefaults(tool.inputSchema, args);
+    const issues = validateArguments(tool.inputSchema, normalizedArgs);
+    if (issues.length > 0) {
+      return {
+        jsonrpc: '2.0',
+        id,
+        error: {
+          code: ERROR_CODES.INVALID_PARAMS,
+          message: `Invalid arguments for ${name}: ${issues[0].message}`,
+          data: {
+            tool: name,
+            field: issues[0].field,
+            errors: issues
+          }
+        }
+      };
+    }
+
+    return tool.handler(id, normalizedArgs, context);
+  }
+}
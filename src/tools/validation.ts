@@ -0,0 +1,143 @@
+/**
+ * Subset of JSON Schema used by tool input schemas.
+ */
+export interface JSONSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  items?: JSONSchema;
+  enum?: any[];
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+  oneOf?: JSONSchema[];
+  default?: any;
+}
+
+export interface ValidationIssue {
+  field: string;
+  message: string;
+}
+
+function describeType(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function matchesType(type: JSONSchema['type'], value: any): boolean {
+  switch (type) {
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'number':
+      return typeof value === 'number' && !Number.isNaN(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'string':
+    case 'boolean':
+      return typeof value === type;
+    default:
+      return true;
+  }
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function validateValue(schema: JSONSchema, value: any, path: string, issues: ValidationIssue[]): void {
+  const field = path || '(arguments)';
+
+  if (schema.type && !matchesType(schema.type, value)) {
+    issues.push({ field, message: `${field} must be of type ${schema.type}, got ${describeType(value)}` });
+    return;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push({ field, message: `${field} must be one of: ${schema.enum.join(', ')}` });
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ field, message: `${field} must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ field, message: `${field} must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({ field, message: `${field} must contain at least ${schema.minItems} items` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issues.push({ field, message: `${field} must contain at most ${schema.maxItems} items` });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => validateValue(schema.items!, item, joinPath(path, index), issues));
+    }
+  }
+
+  if (matchesType('object', value)) {
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) {
+        const missing = joinPath(path, key);
+        issues.push({ field: missing, message: `Missing required parameter: ${missing}` });
+      }
+    }
+    for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+      if (value[key] !== undefined) {
+        validateValue(propertySchema, value[key], joinPath(path, key), issues);
+      }
+    }
+  }
+
+  if (schema.oneOf) {
+    const matching = schema.oneOf.filter(branch => {
+      const branchIssues: ValidationIssue[] = [];
+      validateValue(branch, value, path, branchIssues);
+      return branchIssues.length === 0;
+    });
+    if (matching.length !== 1) {
+      // Name the fields that distinguish the alternatives, e.g. imagePath vs imageBase64
+      const alternatives = schema.oneOf.map(branch => branch.required || []);
+      const shared = alternatives.reduce((common, required) => common.filter(key => required.includes(key)));
+      const distinct = Array.from(new Set(alternatives.flat().filter(key => !shared.includes(key))));
+      const names = distinct.map(key => joinPath(path, key));
+      issues.push({
+        field: names.join('|') || field,
+        message: matching.length === 0
+          ? `One of ${names.join(', ')} is required`
+          : `Only one of ${names.join(', ')} may be provided`
+      });
+    }
+  }
+}
+
+/**
+ * Returns a copy of `args` with schema defaults filled in for missing top-level properties.
+ */
+export function applyDefaults(schema: JSONSchema, args: Record<string, any>): Record<string, any> {
+  const result = { ...args };
+  for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+    if (result[key] === undefined && propertySchema.default !== undefined) {
+      result[key] = propertySchema.default;
+    }
+  }
+  return result;
+}
+
+/**
+ * Validates tool arguments against an input schema.
+ * Returns an empty array when the arguments are valid.
+ */
+export function validateArguments(schema: JSONSchema, args: any): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  validateValue(schema, args, '', issues);
+  return issues;
+}
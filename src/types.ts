@@ -33,6 +33,7 @@ export interface ServerCapabilities {
   tools?: {
     listChanged?: boolean;
   };
+  completions?: Record<string, any>;
   logging?: Record<string, any>;
 }
 
@@ -41,6 +42,26 @@ export interface ServerInfo {
   version: string;
 }
 
+export interface ClientInfo {
+  name: string;
+  version: string;
+}
+
+export interface ClientCapabilities {
+  experimental?: Record<string, any>;
+  roots?: {
+    listChanged?: boolean;
+  };
+  sampling?: Record<string, any>;
+  elicitation?: Record<string, any>;
+}
+
+export interface InitializeParams {
+  protocolVersion?: string;
+  capabilities?: ClientCapabilities;
+  clientInfo?: ClientInfo;
+}
+
 export interface InitializeResult {
   protocolVersion: string;
   serverInfo: ServerInfo;
@@ -51,6 +72,7 @@ export interface ProgressParams {
   progressToken: string | number;
   progress: number;
   total?: number;
+  message?: string;
 }
 
 
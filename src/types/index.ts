@@ -1,9 +1,18 @@
+import type { ProtocolManager } from '../protocol.js';
+import type { RateBudget } from '../rateLimit.js';
+
 export interface ConnectionState {
   connectedAt: Date;
   lastMessageAt: Date;
-  initialized: boolean;
+  // Lifecycle phase, negotiated version and client details of this connection
+  protocol: ProtocolManager;
   activeRequests: Set<string | number>;
   ip: string;
+  // Request and token budget of this connection
+  rateBudget: RateBudget;
+  // Serialized messages waiting for the socket's send buffer to drain, in order
+  outbox: string[];
+  flushTimer?: NodeJS.Timeout;
 }
 
 export interface MCPRequest {
@@ -15,11 +24,12 @@ export interface MCPRequest {
 
 export interface MCPResponse {
   jsonrpc: '2.0';
-  id: string | number;
+  id: string | number | null;
   result?: any;
   error?: {
     code: number;
     message: string;
+    data?: any;
   };
 }
 
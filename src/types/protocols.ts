@@ -1,3 +1,5 @@
+import type { TokenUsage } from '../gemini/usage.js';
+
 export interface MCPMessage {
   jsonrpc: '2.0';
   id: string | number;
@@ -42,6 +44,10 @@ export interface StreamResponse extends MCPResponse {
       timestamp: number;
       model: string;
       tokens?: number;
+      // Sent on the final done: true frame; truncated means the output hit maxTokens
+      finishReason?: string;
+      truncated?: boolean;
+      usage?: TokenUsage;
     };
   };
 }
@@ -65,6 +71,10 @@ export interface GenerateResponse extends MCPResponse {
       temperature?: number;
       maxTokens?: number;
       stopSequences?: string[];
+      finishReason?: string;
+      // The output stopped at maxTokens
+      truncated?: boolean;
+      usage?: TokenUsage;
     };
   };
 }
@@ -0,0 +1,127 @@
+import type { TokenUsage } from '../gemini/usage.js';
+import { DEFAULT_PRICES, estimateCost } from './pricing.js';
+import { PriceTable, UsageBreakdown, UsageOptions, UsageRecord, UsageTotals } from './types.js';
+
+export interface UsageReport {
+  // When the server started counting
+  since: string;
+  lifetime: UsageBreakdown;
+  today: UsageBreakdown & { date: string };
+}
+
+export function emptyTotals(): UsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 };
+}
+
+export function emptyBreakdown(): UsageBreakdown {
+  return { total: emptyTotals(), byModel: {}, byTool: {}, bySession: {}, byClient: {} };
+}
+
+// Adds one call to running totals
+export function addUsage(totals: UsageTotals, usage: TokenUsage, costUsd: number): void {
+  totals.calls++;
+  totals.promptTokens += usage.promptTokens;
+  totals.completionTokens += usage.completionTokens ?? 0;
+  totals.totalTokens += usage.totalTokens;
+  totals.costUsd += costUsd;
+}
+
+function addTo(group: Record<string, UsageTotals>, key: string, usage: TokenUsage, costUsd: number): void {
+  group[key] = group[key] || emptyTotals();
+  addUsage(group[key], usage, costUsd);
+}
+
+// UTC date, which is also the key of the daily usage files
+function dayOf(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * Sums the tokens and estimated cost of Gemini calls per model, tool, chat
+ * session and client, for the process lifetime and for the current day.
+ * With a store, each day's totals are loaded on first use and saved after
+ * every call, so they add up across restarts.
+ */
+export class UsageLedger {
+  private lifetime: UsageBreakdown = emptyBreakdown();
+  private since: number;
+  private prices: PriceTable;
+  private day?: { date: string; breakdown: Promise<UsageBreakdown> };
+  // Serializes saves, so an older breakdown never overwrites a newer one
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(private options: UsageOptions = {}, private now: () => number = Date.now) {
+    this.since = now();
+    this.prices = { ...DEFAULT_PRICES, ...options.prices };
+  }
+
+  /**
+   * Records a call and returns its estimated cost.
+   */
+  record(record: UsageRecord): number {
+    const model = record.model.replace(/^models\//, '');
+    const costUsd = estimateCost(model, record.usage, this.prices);
+    const add = (breakdown: UsageBreakdown) => {
+      addUsage(breakdown.total, record.usage, costUsd);
+      addTo(breakdown.byModel, model, record.usage, costUsd);
+      addTo(breakdown.byTool, record.tool, record.usage, costUsd);
+      addTo(breakdown.byClient, record.clientId, record.usage, costUsd);
+      if (record.sessionId !== undefined) {
+        addTo(breakdown.bySession, record.sessionId, record.usage, costUsd);
+      }
+    };
+
+    add(this.lifetime);
+    const { date, breakdown } = this.currentDay();
+    const updated = breakdown.then(today => {
+      add(today);
+      return today;
+    });
+    this.day = { date, breakdown: updated };
+
+    const store = this.options.store;
+    if (store) {
+      this.saving = this.saving
+        .then(async () => store.save(date, await updated))
+        .catch(error => console.error('Failed to save usage:', error instanceof Error ? error.message : error));
+    }
+    return costUsd;
+  }
+
+  async report(): Promise<UsageReport> {
+    const { date, breakdown } = this.currentDay();
+    return {
+      since: new Date(this.since).toISOString(),
+      lifetime: structuredClone(this.lifetime),
+      today: { date, ...structuredClone(await breakdown) }
+    };
+  }
+
+  // Usage of a single day; earlier days come from the store. Undefined when nothing was recorded
+  async forDate(date: string): Promise<UsageBreakdown | undefined> {
+    if (date === this.day?.date) {
+      return structuredClone(await this.day.breakdown);
+    }
+    return this.options.store?.load(date);
+  }
+
+  // Waits for pending saves, e.g. before shutting down
+  async flush(): Promise<void> {
+    await this.saving;
+  }
+
+  private currentDay(): { date: string; breakdown: Promise<UsageBreakdown> } {
+    const date = dayOf(this.now());
+    if (this.day?.date !== date) {
+      const store = this.options.store;
+      const loaded = store
+        ? store.load(date).catch(error => {
+          console.error(`Failed to load usage for ${date}:`, error instanceof Error ? error.message : error);
+          return undefined;
+        })
+        : Promise.resolve(undefined);
+      this.day = { date, breakdown: loaded.then(breakdown => breakdown || emptyBreakdown()) };
+    }
+    return this.day;
+  }
+}
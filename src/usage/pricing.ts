@@ -0,0 +1,33 @@
+import type { TokenUsage } from '../gemini/usage.js';
+import { ModelPrice, PriceTable } from './types.js';
+
+// Paid tier list prices for prompts up to 200k tokens; override with GEMINI_PRICES
+export const DEFAULT_PRICES: PriceTable = {
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+  'gemini-2.5-flash-lite': { input: 0.10, output: 0.40 },
+  'gemini-2.0-flash': { input: 0.10, output: 0.40 },
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.30 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.30 }
+};
+
+export function priceFor(model: string, prices: PriceTable): ModelPrice | undefined {
+  const prefix = Object.keys(prices)
+    .filter(prefix => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix === undefined ? undefined : prices[prefix];
+}
+
+/**
+ * Estimated cost of a call in US dollars. Everything beyond the prompt is
+ * billed as output, which includes the thinking tokens of 2.5 models.
+ */
+export function estimateCost(model: string, usage: TokenUsage, prices: PriceTable): number {
+  const price = priceFor(model, prices);
+  if (!price) {
+    return 0;
+  }
+  const outputTokens = Math.max(0, usage.totalTokens - usage.promptTokens);
+  return (usage.promptTokens * price.input + outputTokens * price.output) / 1000000;
+}
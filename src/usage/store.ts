@@ -0,0 +1,58 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { UsageBreakdown, UsageStore } from './types.js';
+
+/**
+ * Stores each day's usage as `<dir>/<YYYY-MM-DD>.json`, written to a
+ * temporary file and renamed into place.
+ */
+export class JsonFileUsageStore implements UsageStore {
+  private ready?: Promise<void>;
+
+  constructor(private dir: string) {}
+
+  private fileFor(date: string): string {
+    return path.join(this.dir, `${date}.json`);
+  }
+
+  private ensureDir(): Promise<void> {
+    if (!this.ready) {
+      this.ready = fs.mkdir(this.dir, { recursive: true }).then(() => undefined);
+    }
+    return this.ready;
+  }
+
+  async load(date: string): Promise<UsageBreakdown | undefined> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.fileFor(date), 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+
+    try {
+      return JSON.parse(contents) as UsageBreakdown;
+    } catch (error) {
+      console.error(`Ignoring unreadable usage file ${this.fileFor(date)}: ${(error as Error).message}`);
+      return undefined;
+    }
+  }
+
+  async save(date: string, breakdown: UsageBreakdown): Promise<void> {
+    await this.ensureDir();
+    const file = this.fileFor(date);
+    const tmpFile = `${file}.${randomUUID()}.tmp`;
+
+    await fs.writeFile(tmpFile, JSON.stringify(breakdown, null, 2));
+    try {
+      await fs.rename(tmpFile, file);
+    } catch (error) {
+      await fs.rm(tmpFile, { force: true });
+      throw error;
+    }
+  }
+}
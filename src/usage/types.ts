@@ -0,0 +1,62 @@
+import type { TokenUsage } from '../gemini/usage.js';
+
+/**
+ * Model a Gemini call was made with and, for calls on behalf of a chat
+ * session, the session.
+ */
+export interface UsageSource {
+  model: string;
+  sessionId?: string;
+}
+
+/**
+ * A single Gemini call, attributed to the tool (or legacy method) and
+ * client it was made for.
+ */
+export interface UsageRecord extends UsageSource {
+  tool: string;
+  clientId: string;
+  usage: TokenUsage;
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // Estimated from the price table; 0 for models without a price
+  costUsd: number;
+}
+
+export interface UsageBreakdown {
+  total: UsageTotals;
+  byModel: Record<string, UsageTotals>;
+  byTool: Record<string, UsageTotals>;
+  bySession: Record<string, UsageTotals>;
+  byClient: Record<string, UsageTotals>;
+}
+
+/**
+ * Backend that keeps daily usage between server runs, keyed by UTC date
+ * (YYYY-MM-DD).
+ */
+export interface UsageStore {
+  load(date: string): Promise<UsageBreakdown | undefined>;
+  save(date: string, breakdown: UsageBreakdown): Promise<void>;
+}
+
+// US dollars per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// Keyed by model name prefix, e.g. `gemini-2.5-pro`; the longest matching prefix wins
+export type PriceTable = Record<string, ModelPrice>;
+
+export interface UsageOptions {
+  // Persists daily totals; they are kept in memory only when unset
+  store?: UsageStore;
+  // Merged over DEFAULT_PRICES
+  prices?: PriceTable;
+}
@@ -0,0 +1,195 @@
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { DiskResponseCache, MemoryResponseCache, cacheKey } from '../src/cache';
+import { GeminiMCPCore } from '../src/core';
+
+const answer = (text: string) => ({
+  candidates: [{ index: 0, finishReason: 'STOP', content: { role: 'model', parts: [{ text }] } }]
+}) as any;
+
+const model = { model: 'gemini-test' } as any;
+
+describe('Response cache keys', () => {
+  const withImage = (data: string) => ({
+    contents: [{ role: 'user', parts: [{ text: 'Describe this' }, { inlineData: { mimeType: 'image/png', data } }] }]
+  });
+
+  it('should tell prompts, images and generation settings apart', () => {
+    const base = cacheKey(model, withImage('aGVsbG8='));
+
+    expect(cacheKey(model, withImage('aGVsbG8='))).toBe(base);
+    expect(cacheKey(model, withImage('d29ybGQ='))).not.toBe(base);
+    expect(cacheKey({ model: 'gemini-other' } as any, withImage('aGVsbG8='))).not.toBe(base);
+    expect(cacheKey(model, { ...withImage('aGVsbG8='), generationConfig: { maxOutputTokens: 10 } })).not.toBe(base);
+  });
+});
+
+describe('Memory response cache', () => {
+  it('should expire entries after their TTL', async () => {
+    let now = 0;
+    const cache = new MemoryResponseCache({ ttlMs: 1000 }, () => now);
+
+    await cache.set('a', answer('Hello'));
+    expect(await cache.get('a')).toEqual(answer('Hello'));
+
+    now = 1000;
+    expect(await cache.get('a')).toBeUndefined();
+  });
+
+  it('should evict the least recently used entries over its size cap', async () => {
+    const size = Buffer.byteLength(JSON.stringify(answer('x')));
+    const cache = new MemoryResponseCache({ maxBytes: size * 2 });
+
+    await cache.set('a', answer('a'));
+    await cache.set('b', answer('b'));
+    await cache.get('a');
+    await cache.set('c', answer('c'));
+
+    expect(await cache.get('a')).toBeDefined();
+    expect(await cache.get('b')).toBeUndefined();
+    expect(await cache.clear()).toBe(2);
+  });
+});
+
+describe('Disk response cache', () => {
+  let dir: string;
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should keep entries across instances until they expire', async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'gemini-cache-'));
+    let now = Date.now();
+    await new DiskResponseCache(dir, { ttlMs: 1000 }, () => now).set('a', answer('Hello'));
+    const cache = new DiskResponseCache(dir, { ttlMs: 1000 }, () => now);
+
+    expect(await cache.get('a')).toEqual(answer('Hello'));
+    now += 1000;
+    expect(await cache.get('a')).toBeUndefined();
+    expect(await fs.readdir(dir)).toEqual([]);
+  });
+
+  it('should stay under its size cap and clear every entry', async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'gemini-cache-'));
+    const size = Buffer.byteLength(JSON.stringify({ value: answer('a'), createdAt: Date.now(), expiresAt: Date.now() }));
+    const cache = new DiskResponseCache(dir, { maxBytes: size * 2 });
+
+    await cache.set('a', answer('a'));
+    await cache.set('b', answer('b'));
+    await cache.set('c', answer('c'));
+
+    expect((await fs.readdir(dir)).length).toBeLessThanOrEqual(2);
+    expect(await cache.get('c')).toBeDefined();
+    expect(await cache.clear()).toBeGreaterThan(0);
+    expect(await fs.readdir(dir)).toEqual([]);
+  });
+});
+
+describe('Cached tool calls', () => {
+  const setup = (force = false) => {
+    const core = new GeminiMCPCore('test-key', { cache: { store: new MemoryResponseCache(), force } });
+    const generateContent = jest.fn(async () => ({ response: { ...answer('Paris'), text: () => 'Paris' } }));
+    (core as any).model = (core as any).visionModel = { ...model, generateContent };
+    const callTool = (id: number, name: string, args: Record<string, unknown>) => core.handleRequest({
+      jsonrpc: '2.0',
+      id,
+      method: 'tools/call',
+      params: { name, arguments: args }
+    });
+    return { core, generateContent, callTool };
+  };
+
+  it('should answer repeated deterministic calls from the cache', async () => {
+    const { generateContent, callTool } = setup();
+    const args = { prompt: 'Capital of France?', temperature: 0 };
+
+    const first = await callTool(1, 'generate_text', args);
+    const second = await callTool(2, 'generate_text', args);
+
+    expect(first?.result._meta).toEqual({ cache: 'miss' });
+    expect(second?.result).toMatchObject({ content: [{ type: 'text', text: 'Paris' }], _meta: { cache: 'hit' } });
+    expect(generateContent).toHaveBeenCalledTimes(1);
+  });
+
+  it('should cache the tools that work on given input', async () => {
+    const { generateContent, callTool } = setup();
+    const translate = { text: 'Hello', targetLanguage: 'French' };
+    const explain = { code: 'print(1)', language: 'python' };
+
+    expect((await callTool(1, 'translate_text', translate))?.result._meta).toEqual({ cache: 'miss' });
+    expect((await callTool(2, 'translate_text', translate))?.result._meta).toEqual({ cache: 'hit' });
+    await callTool(3, 'explain_code', explain);
+    expect((await callTool(4, 'explain_code', explain))?.result._meta).toEqual({ cache: 'hit' });
+    expect(generateContent).toHaveBeenCalledTimes(2);
+  });
+
+  it('should leave the temperature of tools that work on given input alone without a cache', async () => {
+    const core = new GeminiMCPCore('test-key');
+    const generateContent = jest.fn(async (request: any) => ({ response: { ...answer('Bonjour'), text: () => 'Bonjour' } }));
+    (core as any).model = { ...model, generateContent };
+
+    await core.handleRequest({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'tools/call',
+      params: { name: 'translate_text', arguments: { text: 'Hello', targetLanguage: 'French' } }
+    });
+
+    expect((generateContent.mock.calls[0][0] as any).generationConfig.temperature).toBe(0.7);
+  });
+
+  it('should skip the cache above temperature 0 unless forced', async () => {
+    const { generateContent, callTool } = setup();
+    const args = { prompt: 'Capital of France?' };
+
+    expect((await callTool(1, 'generate_text', args))?.result._meta).toEqual({ cache: 'bypass' });
+    expect((await callTool(2, 'generate_text', { ...args, cache: true }))?.result._meta).toEqual({ cache: 'miss' });
+    expect((await callTool(3, 'generate_text', { ...args, cache: true }))?.result._meta).toEqual({ cache: 'hit' });
+    expect(generateContent).toHaveBeenCalledTimes(2);
+
+    const forced = setup(true);
+    await forced.callTool(1, 'generate_text', args);
+    expect((await forced.callTool(2, 'generate_text', args))?.result._meta).toEqual({ cache: 'hit' });
+  });
+
+  it('should skip the cache when the model decides the temperature', async () => {
+    const { generateContent, callTool } = setup();
+    const image = { imageBase64: 'aGVsbG8=', prompt: 'Describe this' };
+
+    expect((await callTool(1, 'analyze_image', image))?.result._meta).toEqual({ cache: 'bypass' });
+    expect((await callTool(2, 'analyze_image', image))?.result._meta).toEqual({ cache: 'bypass' });
+    expect(generateContent).toHaveBeenCalledTimes(2);
+  });
+
+  it('should use the temperature set on the model', async () => {
+    const { core, generateContent, callTool } = setup();
+    for (const [sessionId, temperature] of [['creative', 1.5], ['precise', 0]] as const) {
+      (core as any).sessions.create(sessionId, { generationConfig: { temperature } }).history.push(
+        { role: 'user', parts: [{ text: 'Hi' }] },
+        { role: 'model', parts: [{ text: 'Hello' }] }
+      );
+    }
+    (core as any).chatModel = (session: any) => ({ ...model, generationConfig: session.generationConfig, generateContent });
+
+    await callTool(1, 'summarize_conversation', { sessionId: 'creative' });
+    expect((await callTool(2, 'summarize_conversation', { sessionId: 'creative' }))?.result._meta).toEqual({ cache: 'bypass' });
+    await callTool(3, 'summarize_conversation', { sessionId: 'precise' });
+    expect((await callTool(4, 'summarize_conversation', { sessionId: 'precise' }))?.result._meta).toEqual({ cache: 'hit' });
+    expect(generateContent).toHaveBeenCalledTimes(3);
+  });
+
+  it('should empty the cache with clear_cache', async () => {
+    const { generateContent, callTool } = setup();
+    const args = { prompt: 'Capital of France?', temperature: 0 };
+
+    await callTool(1, 'generate_text', args);
+    const cleared = await callTool(2, 'clear_cache', {});
+    await callTool(3, 'generate_text', args);
+
+    expect(cleared?.result.content[0].text).toBe('Removed 1 cached response(s)');
+    expect(generateContent).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { GeminiMCPCore } from '../src/core';
+import { ProtocolManager } from '../src/protocol';
+
+// Resolves when the test says so, rejects as soon as the request is aborted
+function pendingGeneration(signal: AbortSignal, text = 'done') {
+  return new Promise((resolve, reject) => {
+    signal.addEventListener('abort', () => reject(new Error('This operation was aborted')));
+    setTimeout(() => resolve({ response: { text: () => text } }), 50);
+  });
+}
+
+describe('Request cancellation', () => {
+  let core: GeminiMCPCore;
+  let mockModel: { model: string; generateContent: jest.Mock<any> };
+
+  beforeEach(() => {
+    core = new GeminiMCPCore('test-key');
+    mockModel = {
+      model: 'gemini-test',
+      generateContent: jest.fn((request: any, options: any) => pendingGeneration(options.signal))
+    };
+    (core as any).model = mockModel;
+    (core as any).visionModel = mockModel;
+  });
+
+  const callTool = (id: number, name: string, args: any, protocol?: ProtocolManager) => core.handleRequest({
+    jsonrpc: '2.0',
+    id,
+    method: 'tools/call',
+    params: { name, arguments: args }
+  }, protocol);
+
+  const cancel = (requestId: number, protocol?: ProtocolManager) => core.handleRequest({
+    jsonrpc: '2.0',
+    method: 'notifications/cancelled',
+    params: { requestId, reason: 'User requested cancellation' }
+  } as any, protocol);
+
+  it('should abort the Gemini call and send no response', async () => {
+    const pending = callTool(1, 'summarize_text', { text: 'A very long document' });
+    expect(await cancel(1)).toBeNull();
+
+    expect(await pending).toBeNull();
+    const signal = (mockModel.generateContent.mock.calls[0][1] as any).signal as AbortSignal;
+    expect(signal.aborted).toBe(true);
+  });
+
+  it('should abort multi-image comparisons', async () => {
+    const pending = callTool(2, 'compare_images', { images: [{ base64: 'AAAA' }, { base64: 'BBBB' }] });
+    await cancel(2);
+
+    expect(await pending).toBeNull();
+  });
+
+  it('should only cancel requests of the client that sent the notification', async () => {
+    const other = new ProtocolManager();
+    const pending = callTool(3, 'generate_text', { prompt: 'Hello' });
+    await cancel(3, other);
+
+    expect(await pending).toMatchObject({ id: 3, result: { content: [{ text: 'done' }] } });
+  });
+
+  it('should ignore cancellations for finished or unknown requests', async () => {
+    await expect(cancel(42)).resolves.toBeNull();
+    expect(await callTool(4, 'generate_text', { prompt: 'Hello' })).toMatchObject({ id: 4 });
+  });
+
+  it('should cancel legacy generate requests', async () => {
+    (core as any).handlers.model = mockModel;
+    const pending = core.handleRequest({ jsonrpc: '2.0', id: 5, method: 'generate', params: { prompt: 'Hello' } });
+    await cancel(5);
+
+    expect(await pending).toBeNull();
+    expect((mockModel.generateContent.mock.calls[0][1] as any).signal.aborted).toBe(true);
+  });
+
+  it('should leave legacy requests of other clients with the same id running', async () => {
+    (core as any).handlers.model = mockModel;
+    const [first, second] = [new ProtocolManager(), new ProtocolManager()];
+    const generate = (protocol: ProtocolManager) =>
+      core.handleRequest({ jsonrpc: '2.0', id: 6, method: 'generate', params: { prompt: 'Hello' } }, protocol);
+    const pendingFirst = generate(first);
+    const pendingSecond = generate(second);
+
+    await cancel(6, first);
+    // What a closing connection does for its requests
+    core.cancelRequest(6, first);
+
+    expect(await pendingFirst).toBeNull();
+    expect(await pendingSecond).toMatchObject({ id: 6, result: { content: 'done' } });
+  });
+});
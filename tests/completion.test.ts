@@ -0,0 +1,76 @@
+import { describe, it, expect } from '@jest/globals';
+import { CompletionRegistry, rankCompletions } from '../src/completion/registry';
+import { PROGRAMMING_LANGUAGES } from '../src/completion/values';
+import { ERROR_CODES } from '../src/protocol';
+
+describe('Completion Registry', () => {
+  describe('rankCompletions', () => {
+    it('should rank exact, prefix, word-prefix and substring matches in order', () => {
+      const completion = rankCompletions(
+        ['Chinese (Traditional)', 'Portuguese', 'Traditional Chinese', 'Ukrainian', 'tra'],
+        'tra'
+      );
+
+      expect(completion.values).toEqual(['tra', 'Traditional Chinese', 'Chinese (Traditional)']);
+      expect(completion.total).toBe(3);
+      expect(completion.hasMore).toBe(false);
+    });
+
+    it('should cap results and report hasMore', () => {
+      const values = Array.from({ length: 150 }, (_, index) => `value-${index}`);
+
+      const completion = rankCompletions(values, 'value');
+
+      expect(completion.values).toHaveLength(100);
+      expect(completion.total).toBe(150);
+      expect(completion.hasMore).toBe(true);
+    });
+
+    it('should return all values for an empty query', () => {
+      expect(rankCompletions(['b', 'a'], '').values).toEqual(['b', 'a']);
+    });
+  });
+
+  it('should complete prompt arguments', async () => {
+    const registry = new CompletionRegistry();
+    registry.registerPromptArgument('generate_code', 'language', PROGRAMMING_LANGUAGES);
+
+    const response = await registry.complete(
+      1,
+      { type: 'ref/prompt', name: 'generate_code' },
+      { name: 'language', value: 'ty' }
+    );
+
+    expect(response.result.completion.values[0]).toBe('typescript');
+  });
+
+  it('should complete resource template variables from a dynamic source', async () => {
+    const sessions = ['project-a', 'project-b', 'scratch'];
+    const registry = new CompletionRegistry();
+    registry.registerResourceVariable('gemini://sessions/{sessionId}', 'sessionId', () => sessions);
+
+    const response = await registry.complete(
+      1,
+      { type: 'ref/resource', uri: 'gemini://sessions/{sessionId}' },
+      { name: 'sessionId', value: 'proj' }
+    );
+
+    expect(response.result.completion).toEqual({ values: ['project-a', 'project-b'], total: 2, hasMore: false });
+  });
+
+  it('should return no values for unknown arguments', async () => {
+    const registry = new CompletionRegistry();
+
+    const response = await registry.complete(1, { type: 'ref/prompt', name: 'chat' }, { name: 'message', value: 'h' });
+
+    expect(response.result.completion).toEqual({ values: [], total: 0, hasMore: false });
+  });
+
+  it('should reject malformed references', async () => {
+    const registry = new CompletionRegistry();
+
+    const response = await registry.complete(1, { type: 'ref/unknown' } as any, { name: 'x', value: '' });
+
+    expect(response.error?.code).toBe(ERROR_CODES.INVALID_PARAMS);
+  });
+});
@@ -0,0 +1,241 @@
+import { describe, it, expect } from '@jest/globals';
+import { GeminiMCPCore } from '../src/core';
+import { ERROR_CODES, ProtocolManager, SERVER_INFO, negotiateProtocolVersion } from '../src/protocol';
+
+describe('Gemini MCP Core', () => {
+  const core = new GeminiMCPCore('test-key');
+
+  it('should return the shared initialize payload', async () => {
+    const response = await core.handleRequest({ jsonrpc: '2.0', id: 1, method: 'initialize' });
+
+    expect(response).toMatchObject({
+      jsonrpc: '2.0',
+      id: 1,
+      result: {
+        protocolVersion: '2024-11-05',
+        serverInfo: SERVER_INFO,
+        capabilities: {
+          tools: {},
+          prompts: {},
+          resources: {}
+        }
+      }
+    });
+  });
+
+  it('should serve tools, prompts and resources', async () => {
+    const tools = await core.handleRequest({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+    const prompts = await core.handleRequest({ jsonrpc: '2.0', id: 3, method: 'prompts/list' });
+    const resources = await core.handleRequest({ jsonrpc: '2.0', id: 4, method: 'resources/list' });
+
+    expect(tools?.result.tools.map((tool: any) => tool.name)).toEqual(expect.arrayContaining(['generate_text', 'chat']));
+    expect(prompts?.result.prompts.map((prompt: any) => prompt.name)).toContain('code_review');
+    expect(resources?.result.resources.map((resource: any) => resource.uri)).toContain('gemini://server/tools');
+  });
+
+  it('should answer ping', async () => {
+    expect(await core.handleRequest({ jsonrpc: '2.0', id: 5, method: 'ping' })).toEqual({
+      jsonrpc: '2.0',
+      id: 5,
+      result: {}
+    });
+  });
+
+  it('should not respond to notifications', async () => {
+    expect(await core.handleRequest({ jsonrpc: '2.0', method: 'notifications/initialized' } as any)).toBeNull();
+  });
+
+  it('should turn legacy method failures into error responses', async () => {
+    const response = await core.handleRequest({ jsonrpc: '2.0', id: 6, method: 'generate', params: {} });
+
+    expect(response).toMatchObject({ jsonrpc: '2.0', id: 6, error: { code: expect.any(Number) } });
+  });
+
+  it('should report the tokens each tool call spends', async () => {
+    const usageCore = new GeminiMCPCore('test-key');
+    const protocol = new ProtocolManager();
+    const usage: any[] = [];
+    usageCore.on('usage', (tokens, target) => usage.push({ tokens, target }));
+    (usageCore as any).model = {
+      model: 'gemini-test',
+      generateContent: async () => ({
+        response: { text: () => 'Hi', usageMetadata: { promptTokenCount: 4, candidatesTokenCount: 2, totalTokenCount: 6 } }
+      })
+    };
+
+    await usageCore.handleRequest({ jsonrpc: '2.0', id: 8, method: 'tools/call', params: { name: 'generate_text', arguments: { prompt: 'Hello' } } }, protocol);
+
+    expect(usage).toEqual([{ tokens: { promptTokens: 4, completionTokens: 2, totalTokens: 6 }, target: { protocol, requestId: 8 } }]);
+  });
+
+  it('should deliver legacy streams to the client that started them', async () => {
+    const streamCore = new GeminiMCPCore('test-key');
+    const [first, second] = [new ProtocolManager(), new ProtocolManager()];
+    const frames: { protocol: ProtocolManager; content: string; done: boolean }[] = [];
+    (streamCore as any).handlers.model = {
+      model: 'gemini-test',
+      generateContentStream: async (request: any) => ({
+        stream: (async function* () {
+          yield { text: () => request.contents[0].parts[0].text };
+        })(),
+        response: Promise.resolve({})
+      })
+    };
+    const done = new Promise<void>(resolve => streamCore.on('stream', (frame, target) => {
+      frames.push({ protocol: target.protocol, content: frame.result.content, done: frame.result.done });
+      if (frames.filter(({ done }) => done).length === 2) {
+        resolve();
+      }
+    }));
+    const stream = (protocol: ProtocolManager, prompt: string) =>
+      streamCore.handleRequest({ jsonrpc: '2.0', id: 1, method: 'stream', params: { prompt } }, protocol);
+
+    await stream(first, 'first');
+    await stream(second, 'second');
+    await done;
+
+    expect(frames.filter(({ protocol }) => protocol === first).map(({ content }) => content)).toEqual(['first', '']);
+    expect(frames.filter(({ protocol }) => protocol === second).map(({ content }) => content)).toEqual(['second', '']);
+  });
+
+  it('should keep every turn of concurrent messages to one session', async () => {
+    const chatCore = new GeminiMCPCore('test-key');
+    // Like the SDK, each chat works on its own copy of the history it started from
+    (chatCore as any).chatModel = () => ({
+      model: 'gemini-test',
+      startChat: ({ history }: any) => {
+        const turns = [...history];
+        return {
+          sendMessage: async (message: string) => {
+            await new Promise(resolve => setTimeout(resolve, 10));
+            turns.push({ role: 'user', parts: [{ text: message }] }, { role: 'model', parts: [{ text: `Re: ${message}` }] });
+            return { response: { text: () => `Re: ${message}` } };
+          },
+          getHistory: async () => turns
+        };
+      }
+    });
+    const send = (id: number, message: string) => chatCore.handleRequest({
+      jsonrpc: '2.0',
+      id,
+      method: 'tools/call',
+      params: { name: 'chat', arguments: { message, sessionId: 'shared' } }
+    });
+
+    await Promise.all([send(1, 'a'), send(2, 'b')]);
+
+    const { history } = await (chatCore as any).sessions.get('shared');
+    expect(history.map((message: any) => message.parts[0].text)).toEqual(['a', 'Re: a', 'b', 'Re: b']);
+  });
+
+  it('should only tell the client that used a session about its eviction', async () => {
+    const evictionCore = new GeminiMCPCore('test-key', { sessionLimits: { maxSessions: 1 } });
+    const [owner, other] = [new ProtocolManager(), new ProtocolManager()];
+    const notices: { protocol: ProtocolManager; sessionId: string }[] = [];
+    evictionCore.on('notification', (notification, target) => {
+      if (notification.params.logger === 'sessions') {
+        notices.push({ protocol: target.protocol, sessionId: notification.params.data.sessionId });
+      }
+    });
+    (evictionCore as any).chatModel = () => ({
+      model: 'gemini-test',
+      startChat: () => ({
+        sendMessage: async () => ({ response: { text: () => 'Hi' } }),
+        getHistory: async () => []
+      })
+    });
+    const send = (id: number, sessionId: string, protocol: ProtocolManager) => evictionCore.handleRequest({
+      jsonrpc: '2.0',
+      id,
+      method: 'tools/call',
+      params: { name: 'chat', arguments: { message: 'Hello', sessionId } }
+    }, protocol);
+
+    await send(1, 'first', owner);
+    await send(2, 'second', other);
+
+    expect(notices).toEqual([{ protocol: owner, sessionId: 'first' }]);
+  });
+
+  it('should reject unknown methods', async () => {
+    const response = await core.handleRequest({ jsonrpc: '2.0', id: 7, method: 'unknown/method' });
+
+    expect(response?.error?.code).toBe(ERROR_CODES.METHOD_NOT_FOUND);
+  });
+});
+
+describe('Protocol version negotiation', () => {
+  const core = new GeminiMCPCore('test-key');
+
+  const initialize = async (protocolVersion?: string) => {
+    const protocol = new ProtocolManager();
+    const response = await core.handleRequest({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion } }, protocol);
+    return { protocol, version: response?.result.protocolVersion };
+  };
+
+  it('should pick the highest supported version not newer than the request', () => {
+    expect(negotiateProtocolVersion('2025-06-18')).toBe('2025-06-18');
+    expect(negotiateProtocolVersion('2025-04-01')).toBe('2025-03-26');
+    expect(negotiateProtocolVersion('2099-01-01')).toBe('2025-06-18');
+    expect(negotiateProtocolVersion('2024-01-01')).toBe('2024-11-05');
+  });
+
+  it('should fall back to the default version for missing or malformed versions', () => {
+    expect(negotiateProtocolVersion(undefined)).toBe('2024-11-05');
+    expect(negotiateProtocolVersion('latest')).toBe('2024-11-05');
+    expect(negotiateProtocolVersion(42)).toBe('2024-11-05');
+  });
+
+  it('should answer initialize with the negotiated version', async () => {
+    expect((await initialize('2025-03-26')).version).toBe('2025-03-26');
+  });
+
+  it('should only advertise tool annotations and output schemas to newer clients', async () => {
+    const listTools = async (protocolVersion: string) => {
+      const { protocol } = await initialize(protocolVersion);
+      const response = await core.handleRequest({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, protocol);
+      return response?.result.tools.find((tool: any) => tool.name === 'list_chat_sessions');
+    };
+
+    const legacy = await listTools('2024-11-05');
+    const annotated = await listTools('2025-03-26');
+    const structured = await listTools('2025-06-18');
+
+    expect(legacy.annotations).toBeUndefined();
+    expect(annotated.annotations).toMatchObject({ readOnlyHint: true });
+    expect(annotated.outputSchema).toBeUndefined();
+    expect(structured.outputSchema).toMatchObject({ type: 'object' });
+  });
+
+  it('should only return structuredContent to clients that negotiated it', async () => {
+    const callTool = async (protocolVersion: string) => {
+      const { protocol } = await initialize(protocolVersion);
+      const response = await core.handleRequest({
+        jsonrpc: '2.0',
+        id: 3,
+        method: 'tools/call',
+        params: { name: 'list_chat_sessions', arguments: {} }
+      }, protocol);
+      return response?.result;
+    };
+
+    expect((await callTool('2025-03-26')).structuredContent).toBeUndefined();
+    expect((await callTool('2025-06-18')).structuredContent).toEqual({ sessions: [] });
+  });
+
+  it('should accept batches only in 2025-03-26', async () => {
+    const batch = [
+      { jsonrpc: '2.0' as const, id: 4, method: 'ping' },
+      { jsonrpc: '2.0' as const, id: 5, method: 'ping' }
+    ];
+
+    const { protocol: batching } = await initialize('2025-03-26');
+    const { protocol: latest } = await initialize('2025-06-18');
+
+    expect(await core.handleMessage(batch, batching)).toEqual([
+      { jsonrpc: '2.0', id: 4, result: {} },
+      { jsonrpc: '2.0', id: 5, result: {} }
+    ]);
+    expect(await core.handleMessage(batch, latest)).toMatchObject({ id: null, error: { code: ERROR_CODES.INVALID_REQUEST } });
+  });
+});
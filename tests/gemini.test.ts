@@ -0,0 +1,296 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import {
+  GoogleGenerativeAIError,
+  GoogleGenerativeAIFetchError,
+  GoogleGenerativeAIResponseError
+} from '@google/generative-ai';
+import {
+  DEFAULT_CONTEXT_WINDOW,
+  GeminiError,
+  TRUNCATION_NOTICE,
+  contextWindowFor,
+  readResponseText,
+  toGeminiError,
+  withRetry
+} from '../src/gemini';
+import { GeminiMCPCore } from '../src/core';
+import { MCPHandlers } from '../src/handlers';
+import { ERROR_CODES, ProtocolManager } from '../src/protocol';
+
+const fetchError = (status: number, message = '', details?: unknown[]) => new GoogleGenerativeAIFetchError(
+  `Error fetching from https://generativelanguage.googleapis.com/v1beta/models/x:generateContent: [${status} Status] ${message}` +
+    (details ? ` ${JSON.stringify(details)}` : ''),
+  status,
+  'Status',
+  details as any
+);
+
+// A response as the SDK hands it out, with the text() accessor
+const geminiResponse = (fields: Record<string, any>, text = '') => ({ ...fields, text: () => text }) as any;
+
+const harassment = [
+  { category: 'HARM_CATEGORY_HARASSMENT', probability: 'HIGH' },
+  { category: 'HARM_CATEGORY_HATE_SPEECH', probability: 'NEGLIGIBLE' }
+];
+
+describe('Gemini error classification', () => {
+  it('should map HTTP failures to error kinds and codes', () => {
+    expect(toGeminiError(fetchError(429))).toMatchObject({ kind: 'rate_limit', code: ERROR_CODES.GEMINI_RATE_LIMIT });
+    expect(toGeminiError(fetchError(403))).toMatchObject({ kind: 'auth', code: ERROR_CODES.GEMINI_INVALID_TOKEN });
+    expect(toGeminiError(fetchError(400, 'Bad input'))).toMatchObject({ kind: 'invalid_argument', code: ERROR_CODES.GEMINI_API_ERROR });
+    expect(toGeminiError(fetchError(503))).toMatchObject({ kind: 'transient', retryable: true });
+  });
+
+  it('should recognize invalid API keys sent back as 400', () => {
+    const error = toGeminiError(fetchError(400, 'API key not valid', [{ '@type': 'type.googleapis.com/google.rpc.ErrorInfo', reason: 'API_KEY_INVALID' }]));
+
+    expect(error).toMatchObject({ kind: 'auth', message: 'Gemini rejected the API key: API key not valid' });
+  });
+
+  it('should tell daily quotas apart from rate limits and read retry delays', () => {
+    const quota = toGeminiError(fetchError(429, 'Quota exceeded', [
+      { '@type': 'type.googleapis.com/google.rpc.QuotaFailure', violations: [{ quotaId: 'GenerateRequestsPerDayPerProjectPerModel-FreeTier' }] }
+    ]));
+    const rateLimit = toGeminiError(fetchError(429, 'Slow down', [
+      { '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '31s' }
+    ]));
+
+    expect(quota).toMatchObject({ kind: 'quota', retryable: false });
+    expect(rateLimit?.data).toMatchObject({ kind: 'rate_limit', status: 429, retryAfterMs: 31000 });
+  });
+
+  it('should classify blocked responses and network failures', () => {
+    const blocked = new GoogleGenerativeAIResponseError('Response was blocked due to SAFETY', {
+      promptFeedback: { blockReason: 'SAFETY' }
+    } as any);
+
+    expect(toGeminiError(blocked)).toMatchObject({ kind: 'safety', code: ERROR_CODES.GEMINI_CONTENT_FILTER, data: { blockReason: 'SAFETY' } });
+    expect(toGeminiError(new GoogleGenerativeAIError('Error fetching from https://x: fetch failed'))?.kind).toBe('transient');
+  });
+
+  it('should leave errors from elsewhere alone', () => {
+    expect(toGeminiError(new Error('ENOENT'))).toBeUndefined();
+  });
+});
+
+describe('Retrying Gemini calls', () => {
+  const noJitter = () => 0;
+
+  it('should retry transient failures until the call succeeds', async () => {
+    const call = jest.fn<() => Promise<string>>()
+      .mockRejectedValueOnce(fetchError(503))
+      .mockRejectedValueOnce(fetchError(500))
+      .mockResolvedValue('ok');
+
+    expect(await withRetry(call, undefined, {}, noJitter)).toBe('ok');
+    expect(call).toHaveBeenCalledTimes(3);
+  });
+
+  it('should give up after the configured retries and report the attempts', async () => {
+    const call = jest.fn<() => Promise<string>>().mockRejectedValue(fetchError(503));
+
+    const error = await withRetry(call, undefined, { maxRetries: 2 }, noJitter).catch(error => error);
+
+    expect(error).toBeInstanceOf(GeminiError);
+    expect(error.data).toMatchObject({ kind: 'transient', attempts: 3 });
+    expect(call).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry errors that will fail again', async () => {
+    const call = jest.fn<() => Promise<string>>().mockRejectedValue(fetchError(401));
+
+    await expect(withRetry(call, undefined, {}, noJitter)).rejects.toMatchObject({ kind: 'auth', data: { attempts: 1 } });
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it('should wait as long as the API asks instead of backing off', async () => {
+    const random = jest.fn(() => 0);
+    const call = jest.fn<() => Promise<string>>()
+      .mockRejectedValueOnce(fetchError(429, '', [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '0.01s' }]))
+      .mockResolvedValue('ok');
+
+    expect(await withRetry(call, undefined, {}, random)).toBe('ok');
+    expect(random).not.toHaveBeenCalled();
+  });
+
+  it('should fail fast when the requested delay is too long', async () => {
+    const call = jest.fn<() => Promise<string>>()
+      .mockRejectedValue(fetchError(429, 'Please retry in 60s.'));
+
+    await expect(withRetry(call, undefined, { maxDelayMs: 1000 })).rejects.toMatchObject({ data: { retryAfterMs: 60000, attempts: 1 } });
+  });
+
+  it('should stop waiting when the request is cancelled', async () => {
+    const controller = new AbortController();
+    const call = jest.fn<() => Promise<string>>().mockRejectedValue(fetchError(503));
+
+    const pending = withRetry(call, controller.signal, { baseDelayMs: 10000 }, () => 1);
+    setImmediate(() => controller.abort());
+
+    await expect(pending).rejects.toBeDefined();
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Gemini errors in tool calls', () => {
+  it('should answer with the mapped code and error data', async () => {
+    const core = new GeminiMCPCore('test-key', { retry: { maxRetries: 0 } });
+    (core as any).model = { model: 'gemini-test', generateContent: async () => { throw fetchError(429, 'Slow down'); } };
+
+    const response = await core.handleRequest({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'tools/call',
+      params: { name: 'generate_text', arguments: { prompt: 'Hello' } }
+    });
+
+    expect(response?.error).toEqual({
+      code: ERROR_CODES.GEMINI_RATE_LIMIT,
+      message: 'Gemini rate limit exceeded: Slow down',
+      data: { kind: 'rate_limit', status: 429, attempts: 1 }
+    });
+  });
+});
+
+describe('Reading Gemini responses', () => {
+  it('should report blocked prompts with the flagged categories', () => {
+    const response = geminiResponse({ promptFeedback: { blockReason: 'SAFETY', safetyRatings: harassment } });
+
+    expect(() => readResponseText(response)).toThrow('Gemini blocked the prompt (SAFETY): HARM_CATEGORY_HARASSMENT');
+  });
+
+  it('should report responses stopped for safety or recitation', () => {
+    const safety = geminiResponse({ candidates: [{ finishReason: 'SAFETY', safetyRatings: harassment }] });
+    const recitation = geminiResponse({ candidates: [{ finishReason: 'RECITATION' }] });
+
+    expect(() => readResponseText(safety)).toThrow(expect.objectContaining({
+      code: ERROR_CODES.GEMINI_CONTENT_FILTER,
+      data: { kind: 'safety', finishReason: 'SAFETY', categories: ['HARM_CATEGORY_HARASSMENT'] }
+    }));
+    expect(() => readResponseText(recitation)).toThrow('Gemini blocked the response (RECITATION)');
+  });
+
+  it('should flag output cut off at the token limit', () => {
+    const response = geminiResponse({ candidates: [{ finishReason: 'MAX_TOKENS' }] }, 'Once upon a');
+
+    expect(readResponseText(response)).toEqual({ text: 'Once upon a', finishReason: 'MAX_TOKENS', truncated: true });
+  });
+
+  it('should turn blocks into content filter tool errors and note truncation', async () => {
+    const core = new GeminiMCPCore('test-key');
+    const generateContent = jest.fn<() => Promise<any>>()
+      .mockResolvedValueOnce({ response: geminiResponse({ candidates: [{ finishReason: 'SAFETY', safetyRatings: harassment }] }) })
+      .mockResolvedValueOnce({ response: geminiResponse({ candidates: [{ finishReason: 'MAX_TOKENS' }] }, 'Once upon a') });
+    (core as any).model = { model: 'gemini-test', generateContent };
+    const callTool = (id: number) => core.handleRequest({
+      jsonrpc: '2.0',
+      id,
+      method: 'tools/call',
+      params: { name: 'generate_text', arguments: { prompt: 'Tell me a story' } }
+    });
+
+    const blocked = await callTool(1);
+    const truncated = await callTool(2);
+
+    expect(blocked?.error).toMatchObject({ code: ERROR_CODES.GEMINI_CONTENT_FILTER, data: { categories: ['HARM_CATEGORY_HARASSMENT'] } });
+    expect(truncated?.result.content[0].text).toBe(`Once upon a\n\n${TRUNCATION_NOTICE}`);
+  });
+
+  it('should report finish reasons from legacy generate requests', async () => {
+    const model = {
+      model: 'gemini-test',
+      generateContent: async () => ({ response: geminiResponse({ candidates: [{ finishReason: 'MAX_TOKENS' }] }, 'Once upon a') })
+    };
+    const handlers = new MCPHandlers(model as any, {});
+
+    const response = await handlers.handleGenerate({ jsonrpc: '2.0', id: 1, method: 'generate', params: { prompt: 'Story' } });
+
+    expect(response.result.metadata).toMatchObject({ finishReason: 'MAX_TOKENS', truncated: true });
+  });
+});
+
+describe('Context window checks', () => {
+  const setup = (contextGuard: Record<string, unknown>, promptTokens: number) => {
+    const core = new GeminiMCPCore('test-key', { contextGuard });
+    const notifications: any[] = [];
+    core.on('notification', notification => notifications.push(notification));
+    const model = {
+      model: 'models/gemini-test',
+      generateContent: jest.fn(async () => ({ response: geminiResponse({}, 'Done') })),
+      countTokens: jest.fn(async () => ({ totalTokens: promptTokens }))
+    };
+    (core as any).model = model;
+    const protocol = new ProtocolManager();
+    protocol.initialize({ protocolVersion: '2025-06-18' });
+    const callTool = (name: string, args: Record<string, unknown>) => core.handleRequest({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'tools/call',
+      params: { name, arguments: args }
+    }, protocol);
+    return { core, model, notifications, callTool };
+  };
+
+  it('should look up context windows by model family', () => {
+    expect(contextWindowFor('models/gemini-1.5-pro-002')).toBe(2097152);
+    expect(contextWindowFor('gemini-1.0-pro')).toBe(30720);
+    expect(contextWindowFor('gemini-unknown')).toBe(DEFAULT_CONTEXT_WINDOW);
+    expect(contextWindowFor('gemini-1.5-pro', { contextWindow: 8000 })).toBe(8000);
+  });
+
+  it('should reject prompts that leave no room for the requested output', async () => {
+    const { model, callTool } = setup({ contextWindow: 1000 }, 800);
+
+    const response = await callTool('generate_text', { prompt: 'x'.repeat(2000), maxTokens: 500 });
+
+    expect(response?.error).toEqual({
+      code: ERROR_CODES.GEMINI_CONTEXT_LIMIT,
+      message: 'Prompt of 800 tokens plus up to 500 output tokens exceeds the 1000-token context window of models/gemini-test',
+      data: { kind: 'context_limit', inputTokens: 800, maxOutputTokens: 500, contextWindow: 1000 }
+    });
+    expect(model.generateContent).not.toHaveBeenCalled();
+  });
+
+  it('should only count tokens when the estimate comes close to the limit', async () => {
+    const small = setup({ contextWindow: 1000 }, 0);
+    const close = setup({ contextWindow: 1000 }, 400);
+
+    await small.callTool('generate_text', { prompt: 'Hello', maxTokens: 500 });
+    const response = await close.callTool('generate_text', { prompt: 'x'.repeat(2000), maxTokens: 500 });
+
+    expect(small.model.countTokens).not.toHaveBeenCalled();
+    expect(response?.result.content[0].text).toBe('Done');
+  });
+
+  it('should send a warning instead when configured to warn', async () => {
+    const { model, notifications, callTool } = setup({ contextWindow: 1000, mode: 'warn' }, 800);
+
+    const response = await callTool('generate_text', { prompt: 'x'.repeat(2000), maxTokens: 500 });
+
+    expect(response?.result.content[0].text).toBe('Done');
+    expect(model.generateContent).toHaveBeenCalled();
+    expect(notifications).toContainEqual(expect.objectContaining({
+      method: 'notifications/message',
+      params: expect.objectContaining({ level: 'warning', logger: 'context-limit', data: expect.objectContaining({ inputTokens: 800 }) })
+    }));
+  });
+
+  it('should count text, code and chat sessions with count_tokens', async () => {
+    const { core, model, callTool } = setup({ contextWindow: 1000 }, 42);
+    const chatModel = { model: 'models/gemini-chat', countTokens: jest.fn(async () => ({ totalTokens: 300 })) };
+    (core as any).chatModel = () => chatModel;
+    await (core as any).sessions.create('notes', {});
+
+    const text = await callTool('count_tokens', { text: 'Hello', code: 'print(1)' });
+    const session = await callTool('count_tokens', { sessionId: 'notes', text: 'Next question' });
+    const nothing = await callTool('count_tokens', {});
+
+    expect(text?.result.structuredContent).toEqual({ model: 'gemini-test', totalTokens: 42, contextWindow: 1000, remainingTokens: 958 });
+    expect(model.countTokens).toHaveBeenCalledWith(
+      { generateContentRequest: { contents: [{ role: 'user', parts: [{ text: 'Hello' }, { text: 'print(1)' }] }] } },
+      expect.anything()
+    );
+    expect(session?.result.structuredContent).toMatchObject({ model: 'gemini-chat', totalTokens: 300 });
+    expect(nothing?.error?.code).toBe(ERROR_CODES.INVALID_PARAMS);
+  });
+});
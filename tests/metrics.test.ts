@@ -0,0 +1,85 @@
+import { describe, it, expect } from '@jest/globals';
+import { Histogram, ServerMetrics } from '../src/metrics';
+import { RateLimitError } from '../src/rateLimit';
+import { GeminiMCPCore } from '../src/core';
+
+const gauges = { uptimeSeconds: 12, websocketConnections: 2, httpSessions: 1, inFlightRequests: 3 };
+
+describe('Metrics', () => {
+  it('should render histograms with cumulative buckets', () => {
+    const histogram = new Histogram('latency_seconds', 'Latency', [1, 5]);
+
+    histogram.observe(0.5, { model: 'gemini' });
+    histogram.observe(3, { model: 'gemini' });
+    histogram.observe(10, { model: 'gemini' });
+
+    expect(histogram.render()).toEqual([
+      '# HELP latency_seconds Latency',
+      '# TYPE latency_seconds histogram',
+      'latency_seconds_bucket{model="gemini",le="1"} 1',
+      'latency_seconds_bucket{model="gemini",le="5"} 2',
+      'latency_seconds_bucket{model="gemini",le="+Inf"} 3',
+      'latency_seconds_sum{model="gemini"} 13.5',
+      'latency_seconds_count{model="gemini"} 3'
+    ]);
+  });
+
+  it('should report requests, Gemini calls, tokens, rate limits and the cache', () => {
+    const metrics = new ServerMetrics();
+
+    metrics.recordRequest({ method: 'tools/call', tool: 'chat', status: 'error', durationMs: 5 });
+    metrics.recordGeminiCall({ model: 'models/gemini-2.5-pro', operation: 'generate', durationMs: 1500, ok: true });
+    metrics.recordUsage({ promptTokens: 10, completionTokens: 5, totalTokens: 15 });
+    metrics.recordRateLimit(new RateLimitError('client', 'tokens', 1000));
+    metrics.recordCache('hit');
+    metrics.recordCache('hit');
+    metrics.recordCache('miss');
+    metrics.recordCache('bypass');
+    const text = metrics.render(gauges);
+
+    expect(text).toContain('gemini_mcp_in_flight_requests 3');
+    expect(text).toContain('gemini_mcp_active_connections{transport="http"} 1');
+    expect(text).toContain('gemini_mcp_requests_total{method="tools/call",tool="chat",status="error"} 1');
+    expect(text).toContain('gemini_mcp_gemini_request_duration_seconds_bucket{model="gemini-2.5-pro",operation="generate",status="ok",le="2.5"} 1');
+    expect(text).toContain('gemini_mcp_tokens_total{type="completion"} 5');
+    expect(text).toContain('gemini_mcp_rate_limit_rejections_total{scope="client",limit="tokens"} 1');
+    expect(text).toContain(`gemini_mcp_cache_hit_ratio ${2 / 3}`);
+  });
+
+  it('should count unknown methods and tools as other', async () => {
+    const core = new GeminiMCPCore('test-key');
+    const metrics = new ServerMetrics();
+    core.on('request', outcome => metrics.recordRequest(outcome));
+
+    await core.handleRequest({ jsonrpc: '2.0', id: 1, method: 'made/up' });
+    await core.handleRequest({ jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'made_up', arguments: {} } });
+    await core.handleRequest({ jsonrpc: '2.0', id: 3, method: 'tools/call', params: { name: 'list_chat_sessions', arguments: {} } });
+    const text = metrics.render(gauges);
+
+    expect(text).toContain('gemini_mcp_requests_total{method="other",tool="",status="error"} 1');
+    expect(text).toContain('gemini_mcp_requests_total{method="tools/call",tool="other",status="error"} 1');
+    expect(text).toContain('gemini_mcp_requests_total{method="tools/call",tool="list_chat_sessions",status="ok"} 1');
+    expect(text).not.toContain('made');
+  });
+
+  it('should label Gemini calls by model family and count unknown models as other', () => {
+    const metrics = new ServerMetrics({ 'gemini-custom': { input: 1, output: 2 } });
+    const call = (model: string) => metrics.recordGeminiCall({ model, operation: 'chat', durationMs: 100, ok: true });
+
+    call('models/gemini-2.5-flash-lite-preview');
+    call('gemini-2.5-pro-preview-05-06');
+    call('gemini-custom-1');
+    call('models/made-up-model');
+    const text = metrics.render(gauges);
+
+    expect(text).toContain('gemini_mcp_gemini_request_duration_seconds_count{model="gemini-2.5-flash-lite",operation="chat",status="ok"} 1');
+    expect(text).toContain('gemini_mcp_gemini_request_duration_seconds_count{model="gemini-2.5-pro-preview-05-06",operation="chat",status="ok"} 1');
+    expect(text).toContain('gemini_mcp_gemini_request_duration_seconds_count{model="gemini-custom",operation="chat",status="ok"} 1');
+    expect(text).toContain('gemini_mcp_gemini_request_duration_seconds_count{model="other",operation="chat",status="ok"} 1');
+    expect(text).not.toContain('made-up');
+  });
+
+  it('should leave out the cache hit ratio until the cache has been asked', () => {
+    expect(new ServerMetrics().render(gauges)).not.toMatch(/^gemini_mcp_cache_hit_ratio /m);
+  });
+});
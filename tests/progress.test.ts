@@ -0,0 +1,215 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { GeminiMCPCore } from '../src/core';
+import { ProtocolManager } from '../src/protocol';
+
+function textChunk(text: string, candidatesTokenCount?: number) {
+  return {
+    candidates: [{ content: { role: 'model', parts: [{ text }] } }],
+    ...(candidatesTokenCount !== undefined && { usageMetadata: { candidatesTokenCount } }),
+    text: () => text
+  };
+}
+
+function streamResult(texts: string[]) {
+  return {
+    stream: (async function* () {
+      for (const [index, text] of texts.entries()) {
+        yield textChunk(text, index === texts.length - 1 ? 12 : undefined);
+      }
+    })(),
+    response: Promise.resolve({ text: () => texts.join('') })
+  };
+}
+
+describe('Progress notifications', () => {
+  let core: GeminiMCPCore;
+  let protocol: ProtocolManager;
+  let notifications: any[];
+  let mockModel: { model: string; generateContent: jest.Mock<any>; generateContentStream: jest.Mock<any> };
+
+  beforeEach(() => {
+    core = new GeminiMCPCore('test-key');
+    protocol = new ProtocolManager();
+    protocol.initialize({ protocolVersion: '2025-03-26' });
+    notifications = [];
+    core.on('notification', (notification, target) => notifications.push({ notification, target }));
+
+    mockModel = {
+      model: 'gemini-test',
+      generateContent: jest.fn(async () => ({ response: { text: () => 'summary' } })),
+      generateContentStream: jest.fn(async () => streamResult(['Hel', 'lo ', 'world']))
+    };
+    (core as any).model = mockModel;
+    (core as any).visionModel = mockModel;
+  });
+
+  const callTool = (name: string, args: any, progressToken?: string) => core.handleRequest({
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'tools/call',
+    params: { name, arguments: args, ...(progressToken && { _meta: { progressToken } }) }
+  }, protocol);
+
+  const progress = () => notifications
+    .filter(({ notification }) => notification.method === 'notifications/progress')
+    .map(({ notification }) => notification.params);
+
+  it('should report chunk and token counts while streaming', async () => {
+    const response = await callTool('generate_text', { prompt: 'Hello' }, 'gen-1');
+
+    expect(response?.result.content[0].text).toBe('Hello world');
+    expect(progress()).toEqual([
+      { progressToken: 'gen-1', progress: 1, message: 'Received 1 chunk(s), 1 tokens' },
+      { progressToken: 'gen-1', progress: 2, message: 'Received 2 chunk(s), 2 tokens' },
+      { progressToken: 'gen-1', progress: 3, message: 'Received 3 chunk(s), 12 tokens' }
+    ]);
+    expect(notifications[0].target).toEqual({ protocol, requestId: 1 });
+  });
+
+  it('should not stream or report progress without a progress token', async () => {
+    await callTool('generate_text', { prompt: 'Hello' });
+
+    expect(mockModel.generateContentStream).not.toHaveBeenCalled();
+    expect(progress()).toEqual([]);
+  });
+
+  it('should leave out progress messages before protocol version 2025-03-26', async () => {
+    protocol = new ProtocolManager();
+    protocol.initialize({ protocolVersion: '2024-11-05' });
+
+    await callTool('generate_text', { prompt: 'Hello' }, 'gen-2');
+
+    expect(progress()[0]).toEqual({ progressToken: 'gen-2', progress: 1 });
+  });
+
+  it('should report step counts when comparing images', async () => {
+    await callTool('compare_images', { images: [{ base64: 'AAAA' }, { base64: 'BBBB' }] }, 'cmp-1');
+
+    expect(progress().map(({ progress, total }) => [progress, total])).toEqual([[1, 3], [2, 3], [3, 3]]);
+  });
+
+  it('should summarize long texts in chunks and report each step', async () => {
+    const paragraph = 'Lorem ipsum dolor sit amet. '.repeat(3000);
+    const text = `${paragraph}\n\n${paragraph}`;
+
+    const response = await callTool('summarize_text', { text }, 'sum-1');
+
+    expect(response?.result.content[0].text).toBe('summary');
+    expect(mockModel.generateContent).toHaveBeenCalledTimes(3);
+    expect(progress().map(({ progress, total }) => [progress, total])).toEqual([[0, 3], [1, 3], [2, 3], [3, 3]]);
+  });
+});
+
+describe('Streaming tool output', () => {
+  let core: GeminiMCPCore;
+  let notifications: any[];
+  let mockModel: { model: string; generateContent: jest.Mock<any>; generateContentStream: jest.Mock<any> };
+
+  beforeEach(() => {
+    core = new GeminiMCPCore('test-key');
+    notifications = [];
+    core.on('notification', notification => notifications.push(notification));
+
+    mockModel = {
+      model: 'gemini-test',
+      generateContent: jest.fn(async () => ({ response: { text: () => 'unused' } })),
+      generateContentStream: jest.fn(async () => streamResult(['def ', 'add(a, b):', ' return a + b']))
+    };
+    (core as any).model = mockModel;
+  });
+
+  const partialText = () => notifications
+    .filter(notification => notification.params.logger === 'gemini-stream')
+    .map(notification => notification.params.data.text);
+
+  it('should send partial text and return the complete text', async () => {
+    const response = await core.handleRequest({
+      jsonrpc: '2.0',
+      id: 7,
+      method: 'tools/call',
+      params: { name: 'generate_code', arguments: { prompt: 'Add two numbers', stream: true } }
+    });
+
+    expect(partialText()).toEqual(['def ', 'add(a, b):', ' return a + b']);
+    expect(notifications[0].params).toMatchObject({ level: 'info', data: { requestId: 7 } });
+    expect(response?.result.content[0].text).toBe('def add(a, b): return a + b');
+  });
+
+  it('should not stream unless asked to', async () => {
+    await core.handleRequest({
+      jsonrpc: '2.0',
+      id: 8,
+      method: 'tools/call',
+      params: { name: 'generate_text', arguments: { prompt: 'Hello' } }
+    });
+
+    expect(mockModel.generateContentStream).not.toHaveBeenCalled();
+    expect(partialText()).toEqual([]);
+  });
+
+  it('should stream chat replies and keep them in the session', async () => {
+    const sendMessageStream = jest.fn(async () => streamResult(['Hi ', 'there']));
+    const chatSession = {
+      sendMessageStream,
+      getHistory: async () => [
+        { role: 'user', parts: [{ text: 'Hello' }] },
+        { role: 'model', parts: [{ text: 'Hi there' }] }
+      ]
+    };
+    (core as any).chatModel = () => ({ model: 'gemini-test', startChat: () => chatSession });
+
+    const response = await core.handleRequest({
+      jsonrpc: '2.0',
+      id: 9,
+      method: 'tools/call',
+      params: { name: 'chat', arguments: { message: 'Hello', sessionId: 'streamed', stream: true } }
+    });
+
+    expect(partialText()).toEqual(['Hi ', 'there']);
+    expect(response?.result.content[0].text).toBe('Hi there');
+    expect((await (core as any).sessions.get('streamed')).history).toHaveLength(2);
+  });
+
+  it('should only apply a log level to the client that set it', async () => {
+    const [quiet, chatty] = [new ProtocolManager(), new ProtocolManager()];
+    const targets: ProtocolManager[] = [];
+    core.on('notification', (notification, target) => targets.push(target.protocol));
+    const generate = (id: number, protocol: ProtocolManager) => core.handleRequest({
+      jsonrpc: '2.0',
+      id,
+      method: 'tools/call',
+      params: { name: 'generate_code', arguments: { prompt: 'Add two numbers', stream: true } }
+    }, protocol);
+
+    await core.handleRequest({ jsonrpc: '2.0', id: 1, method: 'logging/setLevel', params: { level: 'warning' } }, quiet);
+    await generate(2, quiet);
+    await generate(3, chatty);
+
+    expect(targets).toEqual([chatty, chatty, chatty]);
+  });
+
+  it('should stop streaming when the request is cancelled midway', async () => {
+    let releaseSecondChunk: () => void = () => undefined;
+    mockModel.generateContentStream.mockImplementation(async () => ({
+      stream: (async function* () {
+        yield textChunk('first');
+        await new Promise<void>(resolve => { releaseSecondChunk = resolve; });
+        yield textChunk('second');
+      })(),
+      response: new Promise(() => undefined)
+    }));
+
+    const pending = core.handleRequest({
+      jsonrpc: '2.0',
+      id: 10,
+      method: 'tools/call',
+      params: { name: 'generate_text', arguments: { prompt: 'Hello', stream: true } }
+    });
+    await new Promise(resolve => setImmediate(resolve));
+    await core.handleRequest({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 10 } } as any);
+    releaseSecondChunk();
+
+    expect(await pending).toBeNull();
+    expect(partialText()).toEqual(['first']);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, afterAll } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { PromptRegistry, renderTemplate } from '../src/prompts/registry';
+import { ERROR_CODES } from '../src/protocol';
+
+describe('Prompt Registry', () => {
+  const tmpDirs: string[] = [];
+
+  afterAll(async () => {
+    await Promise.all(tmpDirs.map(dir => fs.rm(dir, { recursive: true, force: true })));
+  });
+
+  describe('renderTemplate', () => {
+    it('should substitute placeholders and optional sections', () => {
+      const template = 'Review{{#language}} {{language}}{{/language}} code:\n{{code}}';
+
+      expect(renderTemplate(template, { code: 'x = 1', language: 'python' })).toBe('Review python code:\nx = 1');
+      expect(renderTemplate(template, { code: 'x = 1' })).toBe('Review code:\nx = 1');
+    });
+  });
+
+  it('should list the built-in prompts with their arguments', () => {
+    const registry = new PromptRegistry();
+    const names = registry.list().map(prompt => prompt.name);
+
+    expect(names).toEqual(expect.arrayContaining([
+      'code_review',
+      'commit_message',
+      'bug_triage',
+      'translate_with_glossary'
+    ]));
+    expect(registry.list().find(prompt => prompt.name === 'code_review')?.arguments).toContainEqual({
+      name: 'code',
+      description: expect.any(String),
+      required: true
+    });
+  });
+
+  it('should render a prompt as a user message', () => {
+    const registry = new PromptRegistry();
+
+    const response = registry.render(1, 'translate_with_glossary', {
+      text: 'Deploy the cluster',
+      targetLanguage: 'German',
+      glossary: 'cluster = Cluster'
+    });
+
+    expect(response.result.messages).toHaveLength(1);
+    expect(response.result.messages[0]).toMatchObject({ role: 'user', content: { type: 'text' } });
+    expect(response.result.messages[0].content.text).toContain('to German');
+    expect(response.result.messages[0].content.text).toContain('cluster = Cluster');
+  });
+
+  it('should reject missing required arguments', () => {
+    const registry = new PromptRegistry();
+
+    const response = registry.render(1, 'code_review', {});
+
+    expect(response.error).toMatchObject({
+      code: ERROR_CODES.INVALID_PARAMS,
+      data: { prompt: 'code_review', field: 'code' }
+    });
+  });
+
+  it('should reject values outside the allowed set', () => {
+    const registry = new PromptRegistry();
+
+    const response = registry.render(1, 'commit_message', { diff: '+a', style: 'poetic' });
+
+    expect(response.error?.data).toMatchObject({ field: 'style' });
+  });
+
+  it('should return an error for unknown prompts', () => {
+    const registry = new PromptRegistry();
+
+    expect(registry.render(1, 'missing', {}).error?.message).toBe('Unknown prompt: missing');
+  });
+
+  it('should load templates from a directory and skip invalid files', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'gemini-prompts-'));
+    tmpDirs.push(dir);
+    await fs.writeFile(path.join(dir, 'release_notes.json'), JSON.stringify({
+      name: 'release_notes',
+      description: 'Draft release notes',
+      arguments: [{ name: 'changes', required: true }],
+      template: 'Write release notes for:\n{{changes}}'
+    }));
+    await fs.writeFile(path.join(dir, 'broken.json'), '{ "name": ');
+
+    const registry = new PromptRegistry();
+    const loaded = await registry.loadDirectory(dir);
+
+    expect(loaded).toEqual(['release_notes']);
+    expect(registry.render(1, 'release_notes', { changes: 'Fixed bugs' }).result.messages[0].content.text)
+      .toBe('Write release notes for:\nFixed bugs');
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from '@jest/globals';
+import { ERROR_CODES, ProtocolManager } from '../src/protocol';
+
+describe('Protocol Manager lifecycle', () => {
+  it('should only accept initialize and ping before initialization', () => {
+    const protocol = new ProtocolManager();
+
+    expect(() => protocol.validateState('ping')).not.toThrow();
+    expect(() => protocol.validateState('initialize')).not.toThrow();
+    expect(() => protocol.validateState('tools/list')).toThrow(
+      expect.objectContaining({ code: ERROR_CODES.SERVER_NOT_INITIALIZED })
+    );
+  });
+
+  it('should move through initialize, initialized and operation', () => {
+    const protocol = new ProtocolManager();
+
+    const result = protocol.initialize({
+      protocolVersion: '2025-03-26',
+      clientInfo: { name: 'test-client', version: '1.0.0' },
+      capabilities: { roots: { listChanged: true } }
+    });
+
+    expect(result.protocolVersion).toBe('2025-03-26');
+    expect(protocol.lifecyclePhase).toBe('initializing');
+    expect(protocol.isInitialized()).toBe(true);
+    expect(protocol.clientInfo).toEqual({ name: 'test-client', version: '1.0.0' });
+    expect(protocol.clientCapabilities).toEqual({ roots: { listChanged: true } });
+    expect(() => protocol.validateState('tools/list')).not.toThrow();
+
+    protocol.markAsInitialized();
+    expect(protocol.lifecyclePhase).toBe('operational');
+  });
+
+  it('should reject a second initialize', () => {
+    const protocol = new ProtocolManager();
+    protocol.initialize();
+
+    expect(() => protocol.validateState('initialize')).toThrow(
+      expect.objectContaining({ code: ERROR_CODES.INVALID_REQUEST })
+    );
+  });
+
+  it('should only accept exit after shutdown', () => {
+    const protocol = new ProtocolManager();
+    protocol.initialize();
+    protocol.requestShutdown();
+
+    expect(protocol.isShutdownRequested()).toBe(true);
+    expect(() => protocol.validateState('tools/list')).toThrow('Server is shutting down');
+    expect(() => protocol.validateState('exit')).not.toThrow();
+  });
+
+  it('should keep state separate between instances', () => {
+    const first = new ProtocolManager();
+    const second = new ProtocolManager();
+    first.initialize({ protocolVersion: '2025-06-18' });
+
+    expect(first.isInitialized()).toBe(true);
+    expect(second.isInitialized()).toBe(false);
+    expect(second.version).toBe('2024-11-05');
+  });
+});
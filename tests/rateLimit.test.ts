@@ -0,0 +1,81 @@
+import { describe, it, expect } from '@jest/globals';
+import { RateLimitError, RateLimiter, TokenBucket } from '../src/rateLimit';
+import { ERROR_CODES } from '../src/protocol';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+describe('Token bucket', () => {
+  it('should refill continuously up to its capacity', () => {
+    const bucket = new TokenBucket(10, 10 / MINUTE_MS, 0);
+
+    bucket.take(10, 0);
+    expect(bucket.available(MINUTE_MS / 2)).toBeCloseTo(5);
+    expect(bucket.available(10 * MINUTE_MS)).toBe(10);
+  });
+
+  it('should say how long to wait for a token after overspending', () => {
+    const bucket = new TokenBucket(1000, 1000 / DAY_MS, 0);
+
+    bucket.take(1500, 0);
+
+    expect(bucket.waitMs(1, 0)).toBe(Math.ceil(501 * DAY_MS / 1000));
+  });
+});
+
+describe('Rate limiter', () => {
+  const check = (limiter: RateLimiter, budget: ReturnType<RateLimiter['createConnectionBudget']>, clientId: string, now = 0) => {
+    try {
+      limiter.check(budget, clientId, now);
+      return undefined;
+    } catch (error) {
+      return error as RateLimitError;
+    }
+  };
+
+  it('should limit requests per minute on each connection', () => {
+    const limiter = new RateLimiter({ perConnection: { requestsPerMinute: 2 } }, 0);
+    const first = limiter.createConnectionBudget(0);
+    const second = limiter.createConnectionBudget(0);
+
+    expect(check(limiter, first, 'a')).toBeUndefined();
+    expect(check(limiter, first, 'a')).toBeUndefined();
+    const error = check(limiter, first, 'a');
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error?.code).toBe(ERROR_CODES.GEMINI_RATE_LIMIT);
+    expect(error?.data).toEqual({ kind: 'rate_limit', scope: 'connection', limit: 'requests', retryAfterMs: 30000 });
+    expect(check(limiter, second, 'b')).toBeUndefined();
+    expect(check(limiter, first, 'a', 30000)).toBeUndefined();
+  });
+
+  it('should share client budgets between connections of the same client', () => {
+    const limiter = new RateLimiter({ perClient: { requestsPerMinute: 1 } }, 0);
+
+    expect(check(limiter, limiter.createConnectionBudget(0), 'agent')).toBeUndefined();
+    expect(check(limiter, limiter.createConnectionBudget(0), 'agent')?.scope).toBe('client');
+    expect(check(limiter, limiter.createConnectionBudget(0), 'other')).toBeUndefined();
+  });
+
+  it('should stop a client once it has used up its daily tokens', () => {
+    const limiter = new RateLimiter({ perClient: { tokensPerDay: 1000 }, global: { tokensPerDay: 5000 } }, 0);
+    const budget = limiter.createConnectionBudget(0);
+
+    limiter.recordTokens(budget, 'agent', 1200, 0);
+    const error = check(limiter, budget, 'agent');
+
+    expect(error?.data).toMatchObject({ scope: 'client', limit: 'tokens' });
+    expect(error?.retryAfterMs).toBe(Math.ceil(201 * DAY_MS / 1000));
+    expect(check(limiter, limiter.createConnectionBudget(0), 'other')).toBeUndefined();
+  });
+
+  it('should not take a request from any budget when one of them is exhausted', () => {
+    const limiter = new RateLimiter({ perConnection: { requestsPerMinute: 5 }, global: { requestsPerMinute: 1 } }, 0);
+    const budget = limiter.createConnectionBudget(0);
+
+    check(limiter, budget, 'a');
+    check(limiter, budget, 'a');
+
+    expect(budget.requests?.available(0)).toBe(4);
+  });
+});
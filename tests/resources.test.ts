@@ -0,0 +1,102 @@
+import { describe, it, expect } from '@jest/globals';
+import { ResourceRegistry, matchUriTemplate } from '../src/resources/registry';
+import { formatTranscript } from '../src/sessions/transcript';
+import { ChatMessage } from '../src/sessions/types';
+import { ERROR_CODES } from '../src/protocol';
+
+describe('Resource Registry', () => {
+  const history: ChatMessage[] = [
+    { role: 'user', parts: [{ text: 'Hello' }] },
+    { role: 'model', parts: [{ text: 'Hi there' }] }
+  ];
+
+  const createRegistry = () => {
+    const sessions = new Map([['project-a', history]]);
+    const registry = new ResourceRegistry();
+
+    registry.register({
+      uri: 'gemini://server/config',
+      name: 'Server configuration',
+      mimeType: 'application/json',
+      read: async () => ({ text: '{"model":"gemini"}' })
+    });
+
+    registry.registerTemplate({
+      uriTemplate: 'gemini://sessions/{sessionId}{?format}',
+      name: 'Chat session transcript',
+      mimeType: 'text/markdown',
+      list: async () => Array.from(sessions.keys()).map(sessionId => ({
+        uri: `gemini://sessions/${sessionId}`,
+        name: sessionId
+      })),
+      read: async ({ sessionId, format }) => {
+        const messages = sessions.get(sessionId);
+        if (!messages) return undefined;
+        return format === 'json'
+          ? { text: formatTranscript(sessionId, messages, 'json'), mimeType: 'application/json' }
+          : { text: formatTranscript(sessionId, messages) };
+      }
+    });
+
+    return registry;
+  };
+
+  describe('matchUriTemplate', () => {
+    it('should extract path and query variables', () => {
+      expect(matchUriTemplate('gemini://sessions/{sessionId}{?format}', 'gemini://sessions/a%20b?format=json'))
+        .toEqual({ sessionId: 'a b', format: 'json' });
+      expect(matchUriTemplate('gemini://sessions/{sessionId}{?format}', 'gemini://sessions/abc'))
+        .toEqual({ sessionId: 'abc' });
+    });
+
+    it('should return null for non-matching URIs', () => {
+      expect(matchUriTemplate('gemini://sessions/{sessionId}', 'gemini://server/config')).toBeNull();
+      expect(matchUriTemplate('gemini://sessions/{sessionId}', 'gemini://sessions/a/b')).toBeNull();
+    });
+  });
+
+  it('should list fixed resources and template instances', async () => {
+    const registry = createRegistry();
+
+    expect(await registry.list()).toEqual([
+      expect.objectContaining({ uri: 'gemini://server/config' }),
+      expect.objectContaining({ uri: 'gemini://sessions/project-a' })
+    ]);
+    expect(registry.listTemplates()).toEqual([
+      expect.objectContaining({ uriTemplate: 'gemini://sessions/{sessionId}{?format}' })
+    ]);
+  });
+
+  it('should read a session transcript as markdown', async () => {
+    const registry = createRegistry();
+
+    const response = await registry.read(1, 'gemini://sessions/project-a');
+
+    expect(response.result.contents[0]).toMatchObject({
+      uri: 'gemini://sessions/project-a',
+      mimeType: 'text/markdown'
+    });
+    expect(response.result.contents[0].text).toContain('**User:**\n\nHello');
+    expect(response.result.contents[0].text).toContain('**Gemini:**\n\nHi there');
+  });
+
+  it('should read a session transcript as JSON', async () => {
+    const registry = createRegistry();
+
+    const response = await registry.read(1, 'gemini://sessions/project-a?format=json');
+
+    expect(response.result.contents[0].mimeType).toBe('application/json');
+    expect(JSON.parse(response.result.contents[0].text)).toEqual({ sessionId: 'project-a', history });
+  });
+
+  it('should return an error for unknown resources', async () => {
+    const registry = createRegistry();
+
+    const response = await registry.read(1, 'gemini://sessions/missing');
+
+    expect(response.error).toMatchObject({
+      code: ERROR_CODES.INVALID_PARAMS,
+      message: 'Resource not found: gemini://sessions/missing'
+    });
+  });
+});
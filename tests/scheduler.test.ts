@@ -0,0 +1,104 @@
+import { describe, it, expect } from '@jest/globals';
+import { QueueFullError, RequestScheduler } from '../src/scheduler';
+import { MCPRequest } from '../src/types';
+
+// A unit of work that finishes when the test says so
+function deferred() {
+  let finish: () => void = () => undefined;
+  const done = new Promise<string>(resolve => { finish = () => resolve('done'); });
+  return { done, finish };
+}
+
+const toolCall = (id: number, name: string): MCPRequest => ({
+  jsonrpc: '2.0',
+  id,
+  method: 'tools/call',
+  params: { name, arguments: {} }
+});
+
+const tick = () => new Promise(resolve => setImmediate(resolve));
+
+describe('Request scheduler', () => {
+  it('should limit how many requests run at once', async () => {
+    const scheduler = new RequestScheduler({ concurrency: 2 });
+    const work = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+
+    const results = work.map((job, index) => scheduler.schedule(toolCall(index, 'generate_text'), () => {
+      started.push(index);
+      return job.done;
+    }));
+
+    expect(started).toEqual([0, 1]);
+    expect(scheduler.queuedCount).toBe(1);
+
+    work[1].finish();
+    await tick();
+    expect(started).toEqual([0, 1, 2]);
+
+    work[0].finish();
+    work[2].finish();
+    expect(await Promise.all(results)).toEqual(['done', 'done', 'done']);
+    expect(scheduler.activeCount).toBe(0);
+  });
+
+  it('should apply per-tool limits without blocking other tools', async () => {
+    const scheduler = new RequestScheduler({ concurrency: 3, toolConcurrency: { analyze_image: 1 } });
+    const image = deferred();
+    const started: string[] = [];
+    const run = (name: string, done: Promise<string>) => () => {
+      started.push(name);
+      return done;
+    };
+
+    scheduler.schedule(toolCall(1, 'analyze_image'), run('image-1', image.done));
+    const second = scheduler.schedule(toolCall(2, 'analyze_image'), run('image-2', Promise.resolve('done')));
+    const text = scheduler.schedule(toolCall(3, 'generate_text'), run('text', Promise.resolve('done')));
+
+    expect(await text).toBe('done');
+    expect(started).toEqual(['image-1', 'text']);
+
+    image.finish();
+    expect(await second).toBe('done');
+    expect(started).toEqual(['image-1', 'text', 'image-2']);
+  });
+
+  it('should reject requests once the queue is full', async () => {
+    const scheduler = new RequestScheduler({ concurrency: 1, maxQueue: 1 });
+    const job = deferred();
+
+    scheduler.schedule(toolCall(1, 'generate_text'), () => job.done);
+    scheduler.schedule(toolCall(2, 'generate_text'), () => job.done);
+
+    await expect(scheduler.schedule(toolCall(3, 'generate_text'), () => job.done)).rejects.toBeInstanceOf(QueueFullError);
+    job.finish();
+  });
+
+  it('should run cheap requests right away even when every slot is taken', async () => {
+    const scheduler = new RequestScheduler({ concurrency: 1, maxQueue: 0 });
+    const job = deferred();
+    scheduler.schedule(toolCall(1, 'generate_text'), () => job.done);
+
+    const ping = await scheduler.schedule({ jsonrpc: '2.0', id: 2, method: 'ping' }, async () => 'pong');
+    const tools = await scheduler.schedule({ jsonrpc: '2.0', id: 3, method: 'tools/list' }, async () => 'tools');
+
+    expect([ping, tools]).toEqual(['pong', 'tools']);
+    job.finish();
+  });
+
+  it('should drop cancelled requests that are still queued', async () => {
+    const scheduler = new RequestScheduler({ concurrency: 1 });
+    const job = deferred();
+    let ran = false;
+
+    scheduler.schedule(toolCall(1, 'generate_text'), () => job.done);
+    const queued = scheduler.schedule(toolCall(2, 'generate_text'), async () => { ran = true; });
+
+    expect(scheduler.cancel(2)).toBe(true);
+    expect(scheduler.cancel(1)).toBe(false);
+    job.finish();
+
+    expect(await queued).toBeNull();
+    expect(ran).toBe(false);
+  });
+});
@@ -42,4 +42,170 @@ describe('MCP Server', () => {
       }
     });
   });
-});
\ No newline at end of file
+
+  it('should keep lifecycle state per connection', async () => {
+    const port = TEST_PORT + 1;
+    new MCPServer(TEST_API_KEY, port);
+
+    const connect = () => new Promise<WebSocket>((resolve) => {
+      const client = new WebSocket(`ws://localhost:${port}`);
+      client.on('open', () => resolve(client));
+    });
+    const request = (client: WebSocket, id: number, method: string) => new Promise<any>((resolve) => {
+      client.on('message', (data) => {
+        const message = JSON.parse(data.toString());
+        if (message.id === id) {
+          resolve(message);
+        }
+      });
+      client.send(JSON.stringify({ jsonrpc: '2.0', id, method }));
+    });
+
+    const first = await connect();
+    const second = await connect();
+
+    await request(first, 1, 'initialize');
+    const initialized = await request(first, 2, 'tools/list');
+    const uninitialized = await request(second, 3, 'tools/list');
+
+    expect(initialized.result.tools).toEqual(expect.any(Array));
+    expect(uninitialized.error.code).toBe(-32002);
+
+    first.close();
+    second.close();
+  });
+
+  it('should deliver stream chunks in order to the connection that started the stream', async () => {
+    const port = TEST_PORT + 2;
+    const server = new MCPServer(TEST_API_KEY, port);
+    (server as any).core.handlers.model = {
+      model: 'gemini-test',
+      generateContentStream: async () => ({
+        stream: (async function* () {
+          yield { text: () => 'Hel' };
+          yield { text: () => 'lo' };
+        })(),
+        response: Promise.resolve({ usageMetadata: { promptTokenCount: 3, candidatesTokenCount: 2, totalTokenCount: 5 } })
+      })
+    };
+
+    const client = new WebSocket(`ws://localhost:${port}`);
+    await new Promise(resolve => client.on('open', resolve));
+    const frames: any[] = [];
+    const done = new Promise<void>((resolve) => {
+      client.on('message', (data) => {
+        const message = JSON.parse(data.toString());
+        if (message.id !== 1) {
+          return;
+        }
+        frames.push(message);
+        if (message.result?.done) {
+          resolve();
+        }
+      });
+    });
+
+    client.send(JSON.stringify({ jsonrpc: '2.0', id: 0, method: 'initialize' }));
+    client.send(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'stream', params: { prompt: 'Hello' } }));
+    await done;
+
+    expect(frames.map(frame => frame.result.started ?? frame.result.content)).toEqual([true, 'Hel', 'lo', '']);
+    expect(frames[3].result.metadata.usage).toEqual({ promptTokens: 3, completionTokens: 2, totalTokens: 5 });
+
+    client.close();
+  });
+
+  it('should reject calls over the connection rate limit', async () => {
+    const port = TEST_PORT + 3;
+    new MCPServer(TEST_API_KEY, port, {}, { perConnection: { requestsPerMinute: 1 } });
+
+    const client = new WebSocket(`ws://localhost:${port}`);
+    await new Promise(resolve => client.on('open', resolve));
+    const responses = new Map<number, any>();
+    const received = new Promise<void>((resolve) => {
+      client.on('message', (data) => {
+        const message = JSON.parse(data.toString());
+        responses.set(message.id, message);
+        if (responses.has(2) && responses.has(3)) {
+          resolve();
+        }
+      });
+    });
+
+    const listSessions = { name: 'list_chat_sessions', arguments: {} };
+    client.send(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'initialize' }));
+    client.send(JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/call', params: listSessions }));
+    client.send(JSON.stringify({ jsonrpc: '2.0', id: 3, method: 'tools/call', params: listSessions }));
+    await received;
+
+    expect(responses.get(2).result).toBeDefined();
+    expect(responses.get(3).error).toMatchObject({ code: -32101, data: { scope: 'connection', limit: 'requests' } });
+
+    client.close();
+  });
+
+  it('should serve Prometheus metrics', async () => {
+    const port = TEST_PORT + 4;
+    new MCPServer(TEST_API_KEY, port, {}, { perConnection: { requestsPerMinute: 1 } });
+
+    const client = new WebSocket(`ws://localhost:${port}`);
+    await new Promise(resolve => client.on('open', resolve));
+    const responded = new Promise<void>((resolve) => {
+      client.on('message', (data) => {
+        if (JSON.parse(data.toString()).id === 4) {
+          resolve();
+        }
+      });
+    });
+    const listSessions = { name: 'list_chat_sessions', arguments: {} };
+    client.send(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'initialize' }));
+    client.send(JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }));
+    client.send(JSON.stringify({ jsonrpc: '2.0', id: 3, method: 'tools/call', params: listSessions }));
+    client.send(JSON.stringify({ jsonrpc: '2.0', id: 4, method: 'tools/call', params: listSessions }));
+    await responded;
+
+    const response = await fetch(`http://localhost:${port}/metrics`);
+    const metrics = await response.text();
+
+    expect(response.headers.get('content-type')).toContain('text/plain');
+    expect(metrics).toContain('gemini_mcp_active_connections{transport="websocket"} 1');
+    expect(metrics).toContain('gemini_mcp_requests_total{method="tools/list",tool="",status="ok"} 1');
+    expect(metrics).toContain('gemini_mcp_requests_total{method="tools/call",tool="list_chat_sessions",status="ok"} 1');
+    expect(metrics).toContain('gemini_mcp_rate_limit_rejections_total{scope="connection",limit="requests"} 1');
+
+    client.close();
+  });
+
+  it('should check each request of a batch like a single request', async () => {
+    const port = TEST_PORT + 5;
+    new MCPServer(TEST_API_KEY, port, {}, { perConnection: { requestsPerMinute: 1 } });
+
+    const client = new WebSocket(`ws://localhost:${port}`);
+    await new Promise(resolve => client.on('open', resolve));
+    const batchResponse = new Promise<any[]>((resolve) => {
+      client.on('message', (data) => {
+        const message = JSON.parse(data.toString());
+        if (Array.isArray(message)) {
+          resolve(message);
+        }
+      });
+    });
+
+    const listSessions = { name: 'list_chat_sessions', arguments: {} };
+    client.send(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2025-03-26' } }));
+    client.send(JSON.stringify([
+      { jsonrpc: '2.0', id: 2, method: 'initialize', params: { protocolVersion: '2025-03-26' } },
+      { jsonrpc: '2.0', id: 3, method: 'tools/call', params: listSessions },
+      { jsonrpc: '2.0', id: 4, method: 'tools/call', params: listSessions },
+      { jsonrpc: '2.0', method: 'notifications/initialized' }
+    ]));
+
+    expect(await batchResponse).toEqual([
+      expect.objectContaining({ id: 2, error: expect.objectContaining({ message: 'Connection is already initialized' }) }),
+      expect.objectContaining({ id: 3, result: expect.any(Object) }),
+      expect.objectContaining({ id: 4, error: expect.objectContaining({ code: -32101 }) })
+    ]);
+
+    client.close();
+  });
+});
@@ -0,0 +1,220 @@
+import { describe, it, expect, afterAll, jest } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonFileSessionStore, MemorySessionStore } from '../src/sessions/store';
+import { ChatSessionManager, SessionEviction } from '../src/sessions/manager';
+import { ChatSessionRecord, ChatMessage } from '../src/sessions/types';
+import { countTurns, rewindHistory } from '../src/sessions/history';
+import { buildSystemInstruction, splitForCompaction } from '../src/sessions/compaction';
+
+describe('Chat Sessions', () => {
+  const tmpDirs: string[] = [];
+
+  const createDir = async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'gemini-sessions-'));
+    tmpDirs.push(dir);
+    return dir;
+  };
+
+  const record: ChatSessionRecord = {
+    id: 'project/a',
+    history: [
+      { role: 'user', parts: [{ text: 'Hello' }] },
+      { role: 'model', parts: [{ text: 'Hi there' }] }
+    ],
+    systemPrompt: 'You are terse',
+    generationConfig: { temperature: 0.2 },
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z'
+  };
+
+  afterAll(async () => {
+    await Promise.all(tmpDirs.map(dir => fs.rm(dir, { recursive: true, force: true })));
+  });
+
+  describe('JsonFileSessionStore', () => {
+    it('should round-trip a session through the file system', async () => {
+      const dir = await createDir();
+      const store = new JsonFileSessionStore(path.join(dir, 'sessions'));
+
+      await store.save(record);
+
+      expect(await store.load('project/a')).toEqual(record);
+      expect(await store.list()).toEqual(['project/a']);
+    });
+
+    it('should write atomically without leaving temporary files', async () => {
+      const dir = await createDir();
+      const store = new JsonFileSessionStore(dir);
+
+      await store.save(record);
+      await store.save({ ...record, history: [] });
+
+      expect(await fs.readdir(dir)).toEqual([`${encodeURIComponent('project/a')}.json`]);
+      expect((await store.load('project/a'))?.history).toEqual([]);
+    });
+
+    it('should return undefined for missing or unreadable sessions', async () => {
+      const dir = await createDir();
+      const store = new JsonFileSessionStore(dir);
+      await fs.writeFile(path.join(dir, 'broken.json'), '{"id": ');
+
+      expect(await store.load('missing')).toBeUndefined();
+      expect(await store.load('broken')).toBeUndefined();
+    });
+
+    it('should delete sessions', async () => {
+      const dir = await createDir();
+      const store = new JsonFileSessionStore(dir);
+      await store.save(record);
+
+      await store.delete('project/a');
+
+      expect(await store.list()).toEqual([]);
+    });
+  });
+
+  describe('ChatSessionManager', () => {
+    it('should restore sessions saved by a previous instance', async () => {
+      const dir = await createDir();
+      const first = new ChatSessionManager(new JsonFileSessionStore(dir));
+      const session = first.create('default', { systemPrompt: 'Be brief' });
+      session.history.push({ role: 'user', parts: [{ text: 'Hi' }] });
+      await first.save(session);
+
+      const second = new ChatSessionManager(new JsonFileSessionStore(dir));
+
+      expect(await second.ids()).toEqual(['default']);
+      expect(await second.get('default')).toMatchObject({
+        systemPrompt: 'Be brief',
+        history: [{ role: 'user', parts: [{ text: 'Hi' }] }]
+      });
+    });
+
+    it('should evict the least recently used session and spill it to the store', async () => {
+      const store = new MemorySessionStore();
+      const manager = new ChatSessionManager(store, { maxSessions: 2 });
+      const evictions: SessionEviction[] = [];
+      manager.on('evicted', eviction => evictions.push(eviction));
+
+      await manager.save(manager.create('a'));
+      await manager.save(manager.create('b'));
+      await manager.get('a');
+      await manager.save(manager.create('c'));
+
+      expect(evictions).toEqual([{ sessionId: 'b', reason: 'lru', spilled: true }]);
+      expect(manager.size).toBe(2);
+      expect(await manager.get('b')).toMatchObject({ id: 'b' });
+    });
+
+    it('should look sessions up without using or evicting them', async () => {
+      const store = new MemorySessionStore();
+      const manager = new ChatSessionManager(store, { maxSessions: 2 });
+      const evictions: SessionEviction[] = [];
+      manager.on('evicted', eviction => evictions.push(eviction));
+
+      await manager.save(manager.create('a'));
+      await manager.save(manager.create('b'));
+      await manager.save(manager.create('c'));
+      expect(await manager.peek('a')).toMatchObject({ id: 'a' });
+      expect(await manager.peek('b')).toMatchObject({ id: 'b' });
+      await manager.save(manager.create('d'));
+
+      expect(evictions.map(eviction => eviction.sessionId)).toEqual(['a', 'b']);
+      expect(manager.size).toBe(2);
+    });
+
+    it('should drop evicted sessions when there is no store', async () => {
+      const manager = new ChatSessionManager(undefined, { maxSessions: 1 });
+      const evictions: SessionEviction[] = [];
+      manager.on('evicted', eviction => evictions.push(eviction));
+
+      await manager.save(manager.create('a'));
+      await manager.save(manager.create('b'));
+
+      expect(evictions).toEqual([{ sessionId: 'a', reason: 'lru', spilled: false }]);
+      expect(await manager.get('a')).toBeUndefined();
+    });
+
+    it('should evict idle sessions', async () => {
+      const manager = new ChatSessionManager(undefined, { idleTtlMs: 1000 });
+      const evictions: SessionEviction[] = [];
+      manager.on('evicted', eviction => evictions.push(eviction));
+      await manager.save(manager.create('a'));
+
+      const now = Date.now();
+      const dateSpy = jest.spyOn(Date, 'now').mockReturnValue(now + 5000);
+      await manager.evictIdle();
+      dateSpy.mockRestore();
+      manager.dispose();
+
+      expect(evictions).toEqual([{ sessionId: 'a', reason: 'idle', spilled: false }]);
+    });
+
+    it('should cap the number of turns per session', async () => {
+      const manager = new ChatSessionManager(undefined, { maxTurns: 1 });
+      const session = manager.create('a');
+      session.history = [
+        { role: 'user', parts: [{ text: 'one' }] },
+        { role: 'model', parts: [{ text: '1' }] },
+        { role: 'user', parts: [{ text: 'two' }] },
+        { role: 'model', parts: [{ text: '2' }] }
+      ];
+
+      await manager.save(session);
+
+      expect(session.history.map(message => message.parts[0].text)).toEqual(['two', '2']);
+    });
+  });
+
+  describe('rewindHistory', () => {
+    const history: ChatMessage[] = [
+      { role: 'user', parts: [{ text: 'one' }] },
+      { role: 'model', parts: [{ text: '1' }] },
+      { role: 'user', parts: [{ text: 'two' }] },
+      { role: 'model', parts: [{ text: '2' }] },
+      { role: 'user', parts: [{ text: 'three' }] },
+      { role: 'model', parts: [{ text: '3' }] }
+    ];
+
+    it('should drop whole turns from the end', () => {
+      const rewound = rewindHistory(history, 2);
+
+      expect(rewound).toEqual(history.slice(0, 2));
+      expect(countTurns(rewound)).toBe(1);
+    });
+
+    it('should not go past the start of the history', () => {
+      expect(rewindHistory(history, 10)).toEqual([]);
+    });
+  });
+
+  describe('compaction', () => {
+    const history: ChatMessage[] = [
+      { role: 'user', parts: [{ text: 'one' }] },
+      { role: 'model', parts: [{ text: '1' }] },
+      { role: 'user', parts: [{ text: 'two' }] },
+      { role: 'model', parts: [{ text: '2' }] },
+      { role: 'user', parts: [{ text: 'three' }] },
+      { role: 'model', parts: [{ text: '3' }] }
+    ];
+
+    it('should keep the most recent turns verbatim', () => {
+      const { older, recent } = splitForCompaction(history, 2);
+
+      expect(older).toEqual(history.slice(0, 2));
+      expect(recent).toEqual(history.slice(2));
+    });
+
+    it('should leave nothing to compact when the history is short', () => {
+      expect(splitForCompaction(history, 5).older).toEqual([]);
+    });
+
+    it('should append the rolling summary to the system prompt', () => {
+      expect(buildSystemInstruction({ ...record, summary: 'We discussed testing.' }))
+        .toBe('You are terse\n\nSummary of the earlier part of this conversation:\nWe discussed testing.');
+      expect(buildSystemInstruction(record)).toBe('You are terse');
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { GeminiMCPCore } from '../src/core';
+import { StreamableHttpTransport, MCP_ENDPOINT } from '../src/streamableHttp';
+import { RateLimiter } from '../src/rateLimit';
+
+describe('Streamable HTTP transport', () => {
+  let transport: StreamableHttpTransport;
+  let server: http.Server;
+  let url: string;
+
+  const post = (body: unknown, headers: Record<string, string> = {}) => fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      ...headers
+    },
+    body: typeof body === 'string' ? body : JSON.stringify(body)
+  });
+
+  const initialize = async (protocolVersion?: string): Promise<string> => {
+    const response = await post({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion } }, { Accept: 'application/json' });
+    return response.headers.get('mcp-session-id') as string;
+  };
+
+  beforeAll(async () => {
+    transport = new StreamableHttpTransport(new GeminiMCPCore('test-key'));
+    server = http.createServer((req, res) => transport.handle(req, res));
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}${MCP_ENDPOINT}`;
+  });
+
+  afterAll(async () => {
+    transport.close();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  it('should issue a session id on initialize', async () => {
+    const response = await post({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} }, { Accept: 'application/json' });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('mcp-session-id')).toMatch(/^[0-9a-f-]{36}$/);
+    expect(await response.json()).toMatchObject({ jsonrpc: '2.0', id: 1, result: { serverInfo: { name: 'gemini-mcp' } } });
+  });
+
+  it('should reject requests from origins that are not allowed', async () => {
+    const foreign = await post({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} }, { Origin: 'http://attacker.example' });
+    const local = await post({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} }, {
+      Origin: 'http://localhost:3000',
+      Accept: 'application/json'
+    });
+
+    expect(foreign.status).toBe(403);
+    expect((await foreign.json()).error.message).toBe('Origin not allowed: http://attacker.example');
+    expect(local.status).toBe(200);
+  });
+
+  it('should reject requests without a session', async () => {
+    const response = await post({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should reject requests for an unknown session', async () => {
+    const response = await post({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, { 'Mcp-Session-Id': 'nope' });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should stream responses as SSE when the client accepts it', async () => {
+    const sessionId = await initialize();
+    const response = await post({ jsonrpc: '2.0', id: 3, method: 'ping' }, { 'Mcp-Session-Id': sessionId });
+
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+    expect(await response.text()).toBe('event: message\ndata: {"jsonrpc":"2.0","id":3,"result":{}}\n\n');
+  });
+
+  it('should answer batches with JSON arrays', async () => {
+    const sessionId = await initialize('2025-03-26');
+    const response = await post([
+      { jsonrpc: '2.0', id: 4, method: 'ping' },
+      { jsonrpc: '2.0', method: 'notifications/initialized' },
+      { jsonrpc: '2.0', id: 5, method: 'ping' }
+    ], { 'Mcp-Session-Id': sessionId, Accept: 'application/json' });
+
+    expect(await response.json()).toEqual([
+      { jsonrpc: '2.0', id: 4, result: {} },
+      { jsonrpc: '2.0', id: 5, result: {} }
+    ]);
+  });
+
+  it('should reject batches when the negotiated version does not allow them', async () => {
+    const sessionId = await initialize('2025-06-18');
+    const response = await post([{ jsonrpc: '2.0', id: 4, method: 'ping' }], { 'Mcp-Session-Id': sessionId });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should reject a protocol version header that does not match the session', async () => {
+    const sessionId = await initialize('2025-06-18');
+    const response = await post({ jsonrpc: '2.0', id: 4, method: 'ping' }, {
+      'Mcp-Session-Id': sessionId,
+      'MCP-Protocol-Version': '2025-03-26'
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should acknowledge notifications with 202', async () => {
+    const sessionId = await initialize();
+    const response = await post({ jsonrpc: '2.0', method: 'notifications/initialized' }, { 'Mcp-Session-Id': sessionId });
+
+    expect(response.status).toBe(202);
+  });
+
+  it('should return a parse error for invalid JSON', async () => {
+    const response = await post('{not json', {});
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.code).toBe(-32700);
+  });
+
+  it('should end sessions on DELETE', async () => {
+    const sessionId = await initialize();
+    const deleted = await fetch(url, { method: 'DELETE', headers: { 'Mcp-Session-Id': sessionId } });
+    const response = await post({ jsonrpc: '2.0', id: 6, method: 'ping' }, { 'Mcp-Session-Id': sessionId });
+
+    expect(deleted.status).toBe(204);
+    expect(response.status).toBe(404);
+  });
+
+  it('should deliver notifications on the GET stream', async () => {
+    const sessionId = await initialize();
+    const controller = new AbortController();
+    const response = await fetch(url, {
+      headers: { Accept: 'text/event-stream', 'Mcp-Session-Id': sessionId },
+      signal: controller.signal
+    });
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    await reader.read(); // ': connected' comment
+
+    transport.broadcast({ jsonrpc: '2.0', method: 'notifications/message', params: { level: 'info', data: 'hello' } });
+    const { value } = await reader.read();
+    controller.abort();
+
+    expect(decoder.decode(value)).toContain('"method":"notifications/message"');
+  });
+});
+
+describe('Streamable HTTP rate limits', () => {
+  const servers: { transport: StreamableHttpTransport; server: http.Server }[] = [];
+
+  afterAll(async () => {
+    for (const { transport, server } of servers) {
+      transport.close();
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  });
+
+  // Serves a transport with the given core and limits on a free port
+  const start = async (core: GeminiMCPCore, rateLimiter: RateLimiter) => {
+    const transport = new StreamableHttpTransport(core, { rateLimiter, jsonResponse: true });
+    const server = http.createServer((req, res) => transport.handle(req, res));
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    servers.push({ transport, server });
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}${MCP_ENDPOINT}`;
+    const post = (body: unknown, sessionId?: string) => fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json', ...(sessionId && { 'Mcp-Session-Id': sessionId }) },
+      body: JSON.stringify(body)
+    });
+    const initialize = async () =>
+      (await post({ jsonrpc: '2.0', id: 0, method: 'initialize', params: {} })).headers.get('mcp-session-id') as string;
+    const callTool = async (sessionId: string, id: number, name: string, args: Record<string, unknown>) =>
+      (await post({ jsonrpc: '2.0', id, method: 'tools/call', params: { name, arguments: args } }, sessionId)).json();
+    return { initialize, callTool };
+  };
+
+  it('should limit the requests of each session', async () => {
+    const { initialize, callTool } = await start(new GeminiMCPCore('test-key'), new RateLimiter({ perConnection: { requestsPerMinute: 1 } }));
+    const [first, second] = [await initialize(), await initialize()];
+
+    const allowed = await callTool(first, 1, 'list_chat_sessions', {});
+    const limited = await callTool(first, 2, 'list_chat_sessions', {});
+    const otherSession = await callTool(second, 3, 'list_chat_sessions', {});
+
+    expect(allowed.result).toBeDefined();
+    expect(limited.error).toMatchObject({ code: -32101, data: { scope: 'connection', limit: 'requests' } });
+    expect(otherSession.result).toBeDefined();
+  });
+
+  it('should charge the tokens of each call to its session', async () => {
+    const core = new GeminiMCPCore('test-key');
+    (core as any).model = {
+      model: 'gemini-test',
+      generateContent: async () => ({
+        response: { text: () => 'Hi', usageMetadata: { promptTokenCount: 4, candidatesTokenCount: 2, totalTokenCount: 6 } }
+      })
+    };
+    const { initialize, callTool } = await start(core, new RateLimiter({ perConnection: { tokensPerDay: 5 } }));
+    const sessionId = await initialize();
+
+    await callTool(sessionId, 1, 'generate_text', { prompt: 'Hello' });
+    const limited = await callTool(sessionId, 2, 'generate_text', { prompt: 'Hello' });
+
+    expect(limited.error).toMatchObject({ code: -32101, data: { scope: 'connection', limit: 'tokens' } });
+  });
+});
@@ -0,0 +1,223 @@
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ToolRegistry } from '../src/tools/registry';
+import { validateArguments, JSONSchema } from '../src/tools/validation';
+import { splitIntoChunks } from '../src/tools/chunking';
+import { ERROR_CODES, ProtocolManager } from '../src/protocol';
+import { GeminiMCPCore } from '../src/core';
+
+describe('Tool Registry', () => {
+  const imageSchema: JSONSchema = {
+    type: 'object',
+    properties: {
+      imagePath: { type: 'string' },
+      imageBase64: { type: 'string' },
+      prompt: { type: 'string', default: 'Describe this image in detail' }
+    },
+    oneOf: [
+      { required: ['imagePath', 'prompt'] },
+      { required: ['imageBase64', 'prompt'] }
+    ]
+  };
+
+  const createRegistry = () => {
+    const registry = new ToolRegistry();
+    const handler = jest.fn(async (id: string | number, args: any) => ({
+      jsonrpc: '2.0' as const,
+      id,
+      result: { content: [{ type: 'text', text: JSON.stringify(args) }] }
+    }));
+
+    registry.register({
+      name: 'generate_text',
+      description: 'Generate text',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          prompt: { type: 'string' },
+          temperature: { type: 'number', minimum: 0, maximum: 1, default: 0.7 },
+          style: { type: 'string', enum: ['brief', 'detailed'] }
+        },
+        required: ['prompt']
+      },
+      handler
+    });
+
+    return { registry, handler };
+  };
+
+  it('should list registered tools without handlers', () => {
+    const { registry } = createRegistry();
+
+    expect(registry.list()).toEqual([
+      expect.objectContaining({ name: 'generate_text', description: 'Generate text' })
+    ]);
+    expect(registry.list()[0]).not.toHaveProperty('handler');
+  });
+
+  it('should reject duplicate registrations', () => {
+    const { registry } = createRegistry();
+
+    expect(() => registry.register({
+      name: 'generate_text',
+      description: 'Duplicate',
+      inputSchema: {},
+      handler: jest.fn() as any
+    })).toThrow('Tool already registered');
+  });
+
+  it('should call the handler with defaults applied', async () => {
+    const { registry, handler } = createRegistry();
+
+    await registry.call(1, 'generate_text', { prompt: 'Hello' });
+
+    expect(handler).toHaveBeenCalledWith(1, { prompt: 'Hello', temperature: 0.7 }, { signal: expect.any(AbortSignal) });
+  });
+
+  it('should pass the call context to the handler', async () => {
+    const { registry, handler } = createRegistry();
+    const controller = new AbortController();
+    await registry.call(1, 'generate_text', { prompt: 'Hello' }, { signal: controller.signal });
+
+    expect(handler).toHaveBeenCalledWith(1, expect.any(Object), { signal: controller.signal });
+  });
+
+  it('should return an error for unknown tools', async () => {
+    const { registry } = createRegistry();
+
+    const response = await registry.call(1, 'missing_tool', {});
+
+    expect(response.error).toMatchObject({
+      code: ERROR_CODES.INVALID_PARAMS,
+      message: 'Unknown tool: missing_tool'
+    });
+  });
+
+  it('should name the invalid field without calling the handler', async () => {
+    const { registry, handler } = createRegistry();
+
+    const response = await registry.call(1, 'generate_text', { prompt: 'Hello', temperature: 2 });
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(response.error).toMatchObject({
+      code: ERROR_CODES.INVALID_PARAMS,
+      data: { tool: 'generate_text', field: 'temperature' }
+    });
+  });
+
+  describe('validateArguments', () => {
+    it('should report missing required fields', () => {
+      const issues = validateArguments({ type: 'object', required: ['prompt'] }, {});
+
+      expect(issues).toEqual([{ field: 'prompt', message: 'Missing required parameter: prompt' }]);
+    });
+
+    it('should report enum violations', () => {
+      const issues = validateArguments({
+        type: 'object',
+        properties: { style: { type: 'string', enum: ['brief', 'detailed'] } }
+      }, { style: 'long' });
+
+      expect(issues[0].field).toBe('style');
+    });
+
+    it('should report nested array items by path', () => {
+      const issues = validateArguments({
+        type: 'object',
+        properties: {
+          images: {
+            type: 'array',
+            minItems: 2,
+            items: { type: 'object', properties: { path: { type: 'string' } } }
+          }
+        }
+      }, { images: [{ path: 'a.png' }, { path: 42 }] });
+
+      expect(issues).toEqual([expect.objectContaining({ field: 'images[1].path' })]);
+    });
+
+    it('should accept exactly one oneOf alternative', () => {
+      expect(validateArguments(imageSchema, { imagePath: 'a.png', prompt: 'x' })).toEqual([]);
+      expect(validateArguments(imageSchema, { imageBase64: 'abc', prompt: 'x' })).toEqual([]);
+    });
+
+    it('should reject missing or ambiguous oneOf alternatives', () => {
+      const missing = validateArguments(imageSchema, { prompt: 'x' });
+      const ambiguous = validateArguments(imageSchema, { imagePath: 'a.png', imageBase64: 'abc', prompt: 'x' });
+
+      expect(missing[0].field).toBe('imagePath|imageBase64');
+      expect(ambiguous[0].message).toContain('Only one of');
+    });
+  });
+});
+
+describe('Text chunking', () => {
+  it('should keep short texts in one chunk', () => {
+    expect(splitIntoChunks('Short text.', 100)).toEqual(['Short text.']);
+  });
+
+  it('should split on paragraph boundaries first', () => {
+    const text = `${'a'.repeat(60)}\n\n${'b'.repeat(60)}`;
+
+    expect(splitIntoChunks(text, 100)).toEqual(['a'.repeat(60), 'b'.repeat(60)]);
+  });
+
+  it('should fall back to sentence boundaries and hard cuts', () => {
+    expect(splitIntoChunks(`${'a'.repeat(70)}. ${'b'.repeat(20)}`, 80)).toEqual([`${'a'.repeat(70)}.`, 'b'.repeat(20)]);
+    expect(splitIntoChunks('c'.repeat(25), 10)).toEqual(['c'.repeat(10), 'c'.repeat(10), 'c'.repeat(5)]);
+  });
+});
+
+describe('File access', () => {
+  let dir: string;
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const setup = async (filesDir?: boolean) => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'gemini-files-'));
+    await fs.mkdir(path.join(dir, 'shared'));
+    await fs.writeFile(path.join(dir, 'secret.png'), 'secret');
+    const core = new GeminiMCPCore('test-key', { filesDir: filesDir ? path.join(dir, 'shared') : undefined });
+    const generateContent = jest.fn(async () => ({ response: { text: () => 'A picture' } }));
+    (core as any).visionModel = { model: 'gemini-test', generateContent };
+    const callTool = (protocol: ProtocolManager, name: string, args: Record<string, unknown>) =>
+      core.handleRequest({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name, arguments: args } }, protocol);
+    return { generateContent, callTool };
+  };
+
+  it('should only let local clients use any path', async () => {
+    const { generateContent, callTool } = await setup();
+    const args = { imagePath: path.join(dir, 'secret.png'), prompt: 'Describe' };
+
+    const network = await callTool(new ProtocolManager(), 'analyze_image', args);
+    const exported = await callTool(new ProtocolManager(), 'export_chat_session', { outputPath: path.join(dir, 'out.md') });
+    const local = await callTool(new ProtocolManager(true), 'analyze_image', args);
+
+    expect(network?.error?.code).toBe(ERROR_CODES.INVALID_PARAMS);
+    expect(exported?.error?.code).toBe(ERROR_CODES.INVALID_PARAMS);
+    expect(local?.result.content[0].text).toBe('A picture');
+    expect(generateContent).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep network clients inside the files directory', async () => {
+    const { generateContent, callTool } = await setup(true);
+    await fs.writeFile(path.join(dir, 'shared', 'cat.png'), 'cat');
+    await fs.symlink(path.join(dir, 'secret.png'), path.join(dir, 'shared', 'link.png'));
+    const protocol = new ProtocolManager();
+
+    const inside = await callTool(protocol, 'analyze_image', { imagePath: 'cat.png', prompt: 'Describe' });
+    const escaped = await callTool(protocol, 'analyze_image', { imagePath: '../secret.png', prompt: 'Describe' });
+    const linked = await callTool(protocol, 'analyze_image', { imagePath: 'link.png', prompt: 'Describe' });
+    const absolute = await callTool(protocol, 'compare_images', { images: [{ path: path.join(dir, 'secret.png') }, { path: 'cat.png' }] });
+
+    expect(inside?.result).toBeDefined();
+    for (const response of [escaped, linked, absolute]) {
+      expect(response?.error).toMatchObject({ code: ERROR_CODES.INVALID_PARAMS, message: expect.stringContaining('outside the files directory') });
+    }
+    expect(generateContent).toHaveBeenCalledTimes(1);
+  });
+});
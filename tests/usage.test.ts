@@ -0,0 +1,125 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonFileUsageStore, UsageLedger, estimateCost } from '../src/usage';
+import { GeminiMCPCore } from '../src/core';
+import { ProtocolManager } from '../src/protocol';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const usage = (promptTokens: number, completionTokens: number, totalTokens = promptTokens + completionTokens) =>
+  ({ promptTokens, completionTokens, totalTokens });
+
+describe('Usage pricing', () => {
+  it('should price by the longest matching model prefix and bill thinking tokens as output', () => {
+    const prices = { 'gemini-2.5-flash': { input: 0.3, output: 2.5 }, 'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 } };
+
+    expect(estimateCost('gemini-2.5-flash-lite', usage(1000000, 1000000), prices)).toBeCloseTo(0.5);
+    expect(estimateCost('gemini-2.5-flash', usage(1000000, 0, 2000000), prices)).toBeCloseTo(2.8);
+    expect(estimateCost('gemini-unknown', usage(1000, 1000), prices)).toBe(0);
+  });
+});
+
+describe('Usage ledger', () => {
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    if (dir) {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should break usage down by model, tool, session and client', async () => {
+    const ledger = new UsageLedger({ prices: { 'gemini-test': { input: 1, output: 2 } } });
+
+    ledger.record({ model: 'models/gemini-test', tool: 'chat', sessionId: 'a', clientId: 'agent', usage: usage(100, 50) });
+    ledger.record({ model: 'gemini-test', tool: 'generate_text', clientId: 'agent', usage: usage(10, 5) });
+    const { lifetime, today } = await ledger.report();
+
+    expect(lifetime.total).toEqual({ calls: 2, promptTokens: 110, completionTokens: 55, totalTokens: 165, costUsd: 0.00022 });
+    expect(Object.keys(lifetime.byModel)).toEqual(['gemini-test']);
+    expect(lifetime.byTool.chat.totalTokens).toBe(150);
+    expect(lifetime.bySession).toEqual({ a: expect.objectContaining({ calls: 1 }) });
+    expect(lifetime.byClient.agent.calls).toBe(2);
+    expect(today.total.calls).toBe(2);
+  });
+
+  it('should persist daily totals and start a new day at UTC midnight', async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'gemini-usage-'));
+    let now = Date.parse('2025-06-01T23:00:00Z');
+    const ledger = new UsageLedger({ store: new JsonFileUsageStore(dir) }, () => now);
+
+    ledger.record({ model: 'gemini-test', tool: 'chat', clientId: 'agent', usage: usage(10, 5) });
+    now += DAY_MS;
+    ledger.record({ model: 'gemini-test', tool: 'chat', clientId: 'agent', usage: usage(20, 5) });
+    await ledger.flush();
+
+    const restarted = new UsageLedger({ store: new JsonFileUsageStore(dir) }, () => now);
+    restarted.record({ model: 'gemini-test', tool: 'chat', clientId: 'agent', usage: usage(30, 5) });
+
+    expect((await restarted.forDate('2025-06-01'))?.total.totalTokens).toBe(15);
+    expect((await restarted.report()).today).toMatchObject({ date: '2025-06-02', total: { calls: 2, totalTokens: 60 } });
+    expect((await restarted.report()).lifetime.total.calls).toBe(1);
+  });
+});
+
+describe('Usage in tool results', () => {
+  const setup = () => {
+    const core = new GeminiMCPCore('test-key', { usage: { prices: { 'gemini-test': { input: 1, output: 2 } } } });
+    const protocol = new ProtocolManager();
+    protocol.initialize({ protocolVersion: '2025-06-18', clientInfo: { name: 'agent', version: '1.0' } });
+    (core as any).model = {
+      model: 'models/gemini-test',
+      generateContent: async () => ({
+        response: { text: () => 'Hi', usageMetadata: { promptTokenCount: 4, candidatesTokenCount: 2, totalTokenCount: 6 } }
+      })
+    };
+    const callTool = (id: number, name: string, args: Record<string, unknown>) => core.handleRequest({
+      jsonrpc: '2.0',
+      id,
+      method: 'tools/call',
+      params: { name, arguments: args }
+    }, protocol);
+    return { core, callTool };
+  };
+
+  it('should return the tokens and cost of each call in _meta', async () => {
+    const { callTool } = setup();
+
+    const response = await callTool(1, 'generate_text', { prompt: 'Hello' });
+
+    expect(response?.result._meta.usage).toEqual({ calls: 1, promptTokens: 4, completionTokens: 2, totalTokens: 6, costUsd: 0.000008 });
+  });
+
+  it('should count every step of a chunked summary', async () => {
+    const { core, callTool } = setup();
+    const events: any[] = [];
+    core.on('usage', (tokens, target) => events.push({ tokens, target }));
+
+    const response = await callTool(1, 'summarize_text', { text: 'word '.repeat(30000) });
+
+    // Two chunks plus the combined summary
+    expect(events).toHaveLength(3);
+    expect(events[0].target.requestId).toBe(1);
+    expect(response?.result._meta.usage).toMatchObject({ calls: 3, promptTokens: 12, completionTokens: 6, totalTokens: 18 });
+  });
+
+  it('should expose the totals through get_usage_report and gemini://usage', async () => {
+    const { core, callTool } = setup();
+
+    await callTool(1, 'generate_text', { prompt: 'Hello' });
+    await callTool(2, 'translate_text', { text: 'Hello', targetLanguage: 'French' });
+    const report = await callTool(3, 'get_usage_report', {});
+    const resource = await core.handleRequest({ jsonrpc: '2.0', id: 4, method: 'resources/read', params: { uri: 'gemini://usage' } });
+    const missing = await callTool(5, 'get_usage_report', { date: '2000-01-01' });
+
+    expect(report?.result.structuredContent.lifetime).toMatchObject({
+      total: { calls: 2, totalTokens: 12 },
+      byTool: { generate_text: { calls: 1 }, translate_text: { calls: 1 } },
+      byClient: { agent: { calls: 2 } }
+    });
+    expect(JSON.parse(resource?.result.contents[0].text).lifetime.total.calls).toBe(2);
+    expect(missing?.error?.message).toBe('No usage recorded for 2000-01-01');
+  });
+});